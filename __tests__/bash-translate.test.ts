@@ -0,0 +1,127 @@
+/**
+ * Tests for bash-to-PowerShell command translation
+ */
+
+import { describe, it, expect } from "vitest";
+import { translateBash, hasChainOperators, BashTranslationError } from "../src/tools/bash-translate.js";
+
+const pwsh7 = { chainOperators: true };
+const pwsh51 = { chainOperators: false };
+
+describe("Bash Translation", () => {
+	describe("Unchanged Commands", () => {
+		it("should return PowerShell and plain commands exactly as written", () => {
+			for (const command of [
+				"Get-ChildItem -Recurse | Where-Object { $_.Length -gt 1MB }",
+				"npm run build -- --watch",
+				"$env:NODE_ENV = 'production'; node server.js",
+				"& 'C:\\Program Files\\tool.exe' --version",
+				"Get-Content $HOME\\notes.txt; $LASTEXITCODE",
+				"cd src && npm test",
+				'Copy-Item build.log "C:\\out\\"; "done"',
+				"<# clean up first #> Remove-Item dist -Recurse -Force",
+				"<#\n.SYNOPSIS\nBuilds < deploys\n#>\nnpm run build",
+			]) {
+				expect(translateBash(command, pwsh7)).toEqual({ command, rewrites: [] });
+			}
+		});
+	});
+
+	describe("Environment", () => {
+		it("should turn leading assignments into $env: statements", () => {
+			const { command, rewrites } = translateBash('NODE_ENV=production PORT="3000" DEBUG= npm start', pwsh7);
+			expect(command).toBe(`$env:NODE_ENV = 'production'; $env:PORT = "3000"; $env:DEBUG = ''; npm start`);
+			expect(rewrites).toContain("NODE_ENV=production → $env:NODE_ENV = 'production'");
+		});
+
+		it("should translate export", () => {
+			expect(translateBash("export CI=1 FORCE_COLOR=0", pwsh7).command).toBe("$env:CI = '1'; $env:FORCE_COLOR = '0'");
+		});
+
+		it("should translate references to variables set bash-style, outside single quotes", () => {
+			const { command } = translateBash(`export NODE_ENV=ci LITERAL=x; echo $PATH "\${NODE_ENV}-build" '$LITERAL' $myVar`, pwsh7);
+			expect(command).toBe(`$env:NODE_ENV = 'ci'; $env:LITERAL = 'x'; echo $PATH "\${env:NODE_ENV}-build" '$LITERAL' $myVar`);
+		});
+
+		it("should leave upper-case PowerShell variables alone", () => {
+			for (const command of [
+				"$ARR = @(1,2); $ARR.Count",
+				'$TOTAL = 3; "Total: $TOTAL"',
+				"foreach ($ITEM in 1..3) { $ITEM }",
+				"Write-Output $CONFIG_PATH",
+			]) {
+				expect(translateBash(command, pwsh7)).toEqual({ command, rewrites: [] });
+			}
+		});
+
+		it("should quote assigned values that reference variables", () => {
+			expect(translateBash("PATH=$HOME/bin:$PATH node -v", pwsh7).command).toBe(`$env:PATH = "$HOME/bin:$env:PATH"; node -v`);
+		});
+	});
+
+	describe("Chains", () => {
+		it("should keep && and || on PowerShell 7", () => {
+			expect(translateBash("npm ci && npm test 2>/dev/null", pwsh7).command).toBe("npm ci && npm test 2>$null");
+		});
+
+		it("should nest if ($?) blocks on Windows PowerShell 5.1", () => {
+			expect(translateBash("cd app && npm ci && npm test", pwsh51).command)
+				.toBe("cd app; if ($?) { npm ci; if ($?) { npm test } }");
+			expect(translateBash("git pull || echo failed", pwsh51).command).toBe("git pull; if (-not $?) { echo failed }");
+		});
+
+		it("should use blocks when a chained command becomes a statement", () => {
+			expect(translateBash("rm -rf dist && CI=1 npm run build", pwsh7).command)
+				.toBe("if (Test-Path -Path dist) { Remove-Item -Path dist -Recurse -Force }; if ($?) { $env:CI = '1'; npm run build }");
+		});
+
+		it("should refuse mixed chains without chain operators", () => {
+			expect(() => translateBash("make && make test || echo broken", pwsh51)).toThrow(BashTranslationError);
+			expect(translateBash("make && make test || echo broken", pwsh7).rewrites).toEqual([]);
+		});
+
+		it("should detect chain operator support from the host version", () => {
+			expect(hasChainOperators("7.4.6")).toBe(true);
+			expect(hasChainOperators("5.1.19041.5247")).toBe(false);
+		});
+	});
+
+	describe("Commands", () => {
+		it("should translate redirections to /dev/null and &>", () => {
+			const { command } = translateBash("node build.js &>/dev/null; npm ls > /dev/null 2>&1", pwsh7);
+			expect(command).toBe("node build.js *>$null; npm ls >$null 2>&1");
+		});
+
+		it("should translate which", () => {
+			expect(translateBash("which node", pwsh7).command).toBe("Get-Command -Name node -CommandType Application -TotalCount 1 | Select-Object -ExpandProperty Source");
+		});
+
+		it("should translate rm -r and rm -f", () => {
+			expect(translateBash("rm -r build out", pwsh7).command).toBe("Remove-Item -Path build, out -Recurse");
+			expect(translateBash("rm -f a.log", pwsh7).command).toBe("if (Test-Path -Path a.log) { Remove-Item -Path a.log -Force }");
+			expect(translateBash("rm old.txt", pwsh7).rewrites).toEqual([]);
+		});
+
+		it("should join line continuations", () => {
+			expect(translateBash("docker run \\\n  -p 80:80 nginx", pwsh7).command).toBe("docker run -p 80:80 nginx");
+		});
+	});
+
+	describe("Refusals", () => {
+		it.each([
+			["input redirection", "sort < names.txt"],
+			["background jobs", "npm run dev &"],
+			["parameter expansion", "echo ${PORT:-3000}"],
+			["positional parameters", "echo $1"],
+			["backslash-escaped quotes", 'echo "say \\"hi\\""'],
+			["a backslash-escaped quote before a space", 'echo "a \\" b"'],
+			["unknown rm options", "rm -rfv dist"],
+			["which options", "which -a node"],
+			["export without a value", "export PATH"],
+			["assignments inside a pipeline", "cat x | FOO=1 grep y"],
+			["a name set both ways", "export COUNT=1; $COUNT = 2; echo $COUNT"],
+		])("should refuse %s", (_label, command) => {
+			expect(() => translateBash(command, pwsh7)).toThrow(BashTranslationError);
+		});
+	});
+});
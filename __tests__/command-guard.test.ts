@@ -0,0 +1,76 @@
+/**
+ * Tests for the destructive-command guard
+ */
+
+import { describe, it, expect } from "vitest";
+import { DEFAULT_RULES, ruleMatches, evaluateCommands, describeFindings, unanalyzedVerdict, type GuardRule } from "../src/guard/command-guard.js";
+import type { CommandUse } from "../src/tools/script-analysis.js";
+
+function use(resolved: string, parameters: string[] = [], args: string[] = [], name = resolved): CommandUse {
+	return { name, resolved, parameters, arguments: args, line: 1 };
+}
+
+describe("Command Guard", () => {
+	describe("Rules", () => {
+		it("should match after alias resolution and by parameter prefix", () => {
+			const rule: GuardRule = { command: 'Remove-Item', parameters: ['Recurse'], action: 'confirm' };
+			expect(ruleMatches(rule, use('Remove-Item', ['r', 'Force'], ['.\\dist'], 'rm'))).toBe(true);
+			expect(ruleMatches(rule, use('Remove-Item', ['Rec'], ['dist']))).toBe(true);
+			expect(ruleMatches(rule, use('Remove-Item', ['Force'], ['dist']))).toBe(false);
+			expect(ruleMatches(rule, use('Get-ChildItem', ['Recurse']))).toBe(false);
+		});
+
+		it("should support wildcards and argument patterns", () => {
+			const rule: GuardRule = { command: 'Stop-*', argumentPattern: '^prod', action: 'deny' };
+			expect(ruleMatches(rule, use('Stop-Service', ['Name'], ["'prod-api'"]))).toBe(true);
+			expect(ruleMatches(rule, use('Stop-Service', ['Name'], ['dev-api']))).toBe(false);
+		});
+	});
+
+	describe("Evaluation", () => {
+		it("should deny recursive deletes of drive roots and system folders", () => {
+			for (const target of ['C:\\', "'C:\\'", '/', '$env:SystemRoot', '"C:\\Program Files"', '~']) {
+				const verdict = evaluateCommands([use('Remove-Item', ['Recurse', 'Force'], [target], 'rm')], DEFAULT_RULES);
+				expect(verdict.action, target).toBe('deny');
+			}
+		});
+
+		it("should ask for confirmation on other recursive deletes", () => {
+			const verdict = evaluateCommands([use('Remove-Item', ['Recurse'], ['.\\node_modules'])], DEFAULT_RULES);
+			expect(verdict.action).toBe('confirm');
+			expect(verdict.findings[0].reason).toBe('Recursive delete');
+		});
+
+		it("should allow ordinary commands", () => {
+			const verdict = evaluateCommands([use('Remove-Item', [], ['out.txt']), use('Get-Process')], DEFAULT_RULES);
+			expect(verdict).toEqual({ action: 'allow', findings: [] });
+		});
+
+		it("should let the strictest decision win", () => {
+			const verdict = evaluateCommands([use('Restart-Computer'), use('Format-Volume', ['DriveLetter'], ['D'])], DEFAULT_RULES);
+			expect(verdict.action).toBe('deny');
+			expect(verdict.findings).toHaveLength(2);
+		});
+
+		it("should let user rules override the defaults", () => {
+			const rules: GuardRule[] = [
+				{ command: 'Remove-Item', parameters: ['Recurse'], argumentPattern: 'node_modules', action: 'allow' },
+				{ command: 'Stop-Service', action: 'deny', reason: 'Services are managed by ops' },
+				...DEFAULT_RULES,
+			];
+			expect(evaluateCommands([use('Remove-Item', ['Recurse'], ['node_modules'])], rules).action).toBe('allow');
+			expect(evaluateCommands([use('Stop-Service', [], ['w3svc'])], rules).findings[0].reason).toBe('Services are managed by ops');
+		});
+
+		it("should describe findings with the alias and line", () => {
+			const verdict = evaluateCommands([{ ...use('Remove-Item', ['Recurse'], ['dist'], 'rm'), line: 3 }], DEFAULT_RULES);
+			expect(describeFindings(verdict.findings)).toBe('line 3: rm (Remove-Item) — Recursive delete [confirm]');
+		});
+
+		it("should ask for confirmation when the command could not be analyzed", () => {
+			const verdict = unanalyzedVerdict();
+			expect(verdict.action).toBe('confirm');
+			expect(describeFindings(verdict.findings)).toMatch(/guard rules were not checked \[confirm\]$/);
+		});
+	});
+});
@@ -0,0 +1,59 @@
+/**
+ * Tests for batch-file routing decisions
+ */
+
+import { describe, it, expect } from "vitest";
+import { batchCandidate, isBatchResolution, isBatchLaunchError, describeExecutionPath } from "../src/tools/command-routing.js";
+
+describe("Command Routing", () => {
+	describe("Candidates", () => {
+		it("should return the program of a plain invocation", () => {
+			expect(batchCandidate("npm run build -- --watch")).toBe("npm");
+			expect(batchCandidate("  yarn.cmd install")).toBe("yarn.cmd");
+			expect(batchCandidate('npx tsc -p "my project"')).toBe("npx");
+		});
+
+		it("should leave anything PowerShell must interpret alone", () => {
+			expect(batchCandidate("npm ls | Select-String react")).toBeNull();
+			expect(batchCandidate("npm install; Write-Host done")).toBeNull();
+			expect(batchCandidate("npm run $script")).toBeNull();
+			expect(batchCandidate("npm install 'left-pad'")).toBeNull();
+			expect(batchCandidate("npm test && npm run lint")).toBeNull();
+			expect(batchCandidate("npm test > out.txt")).toBeNull();
+		});
+
+		it("should skip cmdlets, explicit cmd and call operators", () => {
+			expect(batchCandidate("Get-ChildItem -Recurse")).toBeNull();
+			expect(batchCandidate('cmd /c "npm run dev"')).toBeNull();
+			expect(batchCandidate("& npm test")).toBeNull();
+			expect(batchCandidate('"C:\\Program Files\\tool.cmd" arg')).toBeNull();
+		});
+	});
+
+	describe("Resolution", () => {
+		it("should detect .cmd and .bat applications", () => {
+			expect(isBatchResolution("Application|C:\\Program Files\\nodejs\\npm.cmd\r\n")).toBe(true);
+			expect(isBatchResolution("Application|C:\\tools\\build.BAT")).toBe(true);
+		});
+
+		it("should not route executables, scripts or cmdlets", () => {
+			expect(isBatchResolution("Application|C:\\Program Files\\nodejs\\node.exe")).toBe(false);
+			expect(isBatchResolution("ExternalScript|C:\\Users\\me\\npm.ps1")).toBe(false);
+			expect(isBatchResolution("Cmdlet|Microsoft.PowerShell.Management")).toBe(false);
+			expect(isBatchResolution("")).toBe(false);
+		});
+	});
+
+	describe("Fallback", () => {
+		it("should recognize batch-file launch errors", () => {
+			expect(isBatchLaunchError("Program 'npm' failed to run: The specified executable is not a valid Win32 application")).toBe(true);
+			expect(isBatchLaunchError("npm ERR! missing script: build")).toBe(false);
+		});
+
+		it("should only describe cmd routing", () => {
+			expect(describeExecutionPath('powershell')).toBeUndefined();
+			expect(describeExecutionPath('cmd')).toContain('cmd /c');
+			expect(describeExecutionPath('cmd-retry')).toContain('Retried');
+		});
+	});
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for the extension configuration files
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadConfig, readConfigFile, mergeConfig, defaultConfig, getConfig, setConfig } from "../src/config/config.js";
+
+describe("Configuration", () => {
+	let project: string;
+	let home: string;
+
+	const write = (dir: string, sub: string, data: unknown) => {
+		mkdirSync(join(dir, sub), { recursive: true });
+		writeFileSync(join(dir, sub, 'powershell.json'), typeof data === 'string' ? data : JSON.stringify(data));
+	};
+
+	beforeEach(() => {
+		project = mkdtempSync(join(tmpdir(), 'pi-ps-project-'));
+		home = mkdtempSync(join(tmpdir(), 'pi-ps-home-'));
+	});
+
+	afterEach(() => {
+		rmSync(project, { recursive: true, force: true });
+		rmSync(home, { recursive: true, force: true });
+		setConfig(defaultConfig());
+	});
+
+	describe("Validation", () => {
+		it("should treat a missing file as empty", () => {
+			expect(readConfigFile(join(project, 'nope.json'))).toEqual({ errors: [] });
+		});
+
+		it("should report invalid JSON", () => {
+			write(project, '.pi', '{ "timeout": ');
+			const { config, errors } = readConfigFile(join(project, '.pi', 'powershell.json'));
+
+			expect(config).toBeUndefined();
+			expect(errors[0]).toContain('invalid JSON');
+		});
+
+		it("should report schema violations with their path", () => {
+			write(project, '.pi', { timeout: -1, jobs: { unknown: true }, host: { edition: 'legacy' } });
+			const { errors } = readConfigFile(join(project, '.pi', 'powershell.json'));
+
+			expect(errors.some(e => e.includes('/timeout'))).toBe(true);
+			expect(errors.some(e => e.includes('/jobs'))).toBe(true);
+			expect(errors.some(e => e.includes('/host/edition'))).toBe(true);
+		});
+
+		it("should report invalid guard rule patterns", () => {
+			write(project, '.pi', { guard: { rules: [{ command: 'Remove-Item', argumentPattern: '([', action: 'deny' }] } });
+			const { config, errors } = readConfigFile(join(project, '.pi', 'powershell.json'));
+
+			expect(config).toBeUndefined();
+			expect(errors[0]).toContain('/guard/rules/0/argumentPattern');
+		});
+
+		it("should check session credential sources", () => {
+			write(project, '.pi', { sessions: {
+				web: { computerName: 'web01', credential: 'CORP\\deploy', credentialSource: { type: 'vault', name: 'web-deploy' } },
+				db: { computerName: 'db01', credentialSource: { type: 'env' } },
+			} });
+			const { config, errors } = readConfigFile(join(project, '.pi', 'powershell.json'));
+
+			expect(config).toBeUndefined();
+			expect(errors.some(e => e.includes('/sessions/db/credentialSource'))).toBe(true);
+			expect(errors.some(e => e.includes('/sessions/web'))).toBe(false);
+		});
+	});
+
+	describe("Merging", () => {
+		it("should merge nested settings key by key", () => {
+			const base = mergeConfig(defaultConfig(), { output: { maxLines: 500 }, jobs: { env: { A: '1' } } });
+			const merged = mergeConfig(base, { output: { maxBytes: 4096 }, jobs: { env: { B: '2' } } });
+
+			expect(merged.output.maxLines).toBe(500);
+			expect(merged.output.maxBytes).toBe(4096);
+			expect(merged.jobs.env).toEqual({ A: '1', B: '2' });
+			expect(merged.jobs.queryTimeout).toBe(5);
+		});
+
+		it("should default the heartbeat and merge its settings", () => {
+			const merged = mergeConfig(defaultConfig(), { heartbeat: { autoReconnect: true, interval: 0 } });
+
+			expect(merged.heartbeat).toEqual({ interval: 0, autoReconnect: true, maxAttempts: 5, backoff: 2 });
+		});
+
+		it("should close idle sessions after 30 minutes unless configured otherwise", () => {
+			expect(defaultConfig().sessionIdleTimeout).toBe(1800);
+			expect(mergeConfig(defaultConfig(), { sessionIdleTimeout: 0 }).sessionIdleTimeout).toBe(0);
+		});
+
+		it("should put project guard rules before user rules", () => {
+			const user = mergeConfig(defaultConfig(), { guard: { rules: [{ command: 'Stop-Service', action: 'deny' }] } });
+			const merged = mergeConfig(user, { guard: { enabled: false, rules: [{ command: 'Stop-Service', action: 'allow' }] } });
+
+			expect(merged.guard.enabled).toBe(false);
+			expect(merged.guard.rules.map(r => r.action)).toEqual(['allow', 'deny']);
+		});
+
+		it("should let the project override the user file", () => {
+			write(home, join('.pi', 'agent'), { timeout: 60, utf8: false, sessions: { prod: { computerName: 'old', port: 5986 } } });
+			write(project, '.pi', { timeout: 120, sessions: { prod: { computerName: 'srv01' } } });
+
+			const { config, errors } = loadConfig(project, home);
+
+			expect(errors).toEqual([]);
+			expect(config.timeout).toBe(120);
+			expect(config.utf8).toBe(false);
+			expect(config.sessions.prod).toEqual({ computerName: 'srv01', port: 5986 });
+			expect(getConfig()).toBe(config);
+		});
+
+		it("should skip an invalid file but keep the valid one", () => {
+			write(home, join('.pi', 'agent'), { timeout: 45 });
+			write(project, '.pi', { timeout: 'soon' });
+
+			const { config, errors } = loadConfig(project, home);
+
+			expect(config.timeout).toBe(45);
+			expect(errors).toHaveLength(1);
+		});
+
+		it("should keep the host path and guard relaxation to the user file", () => {
+			write(home, join('.pi', 'agent'), { host: { path: '/opt/pwsh/pwsh' }, guard: { rules: [{ command: 'Stop-Service', action: 'allow' }] } });
+			write(project, '.pi', {
+				host: { path: './evil', edition: 'core' },
+				guard: { enabled: false, rules: [{ command: 'Remove-Item', action: 'allow' }, { command: 'Restart-Computer', action: 'deny' }] },
+			});
+
+			const { config, errors, notices } = loadConfig(project, home);
+
+			expect(errors).toEqual([]);
+			expect(config.host).toEqual({ path: '/opt/pwsh/pwsh', edition: 'core' });
+			expect(config.guard.enabled).toBe(true);
+			expect(config.guard.rules.map(r => `${r.command}:${r.action}`)).toEqual(['Restart-Computer:deny', 'Stop-Service:allow']);
+			expect(notices).toHaveLength(3);
+			expect(notices.join('\n')).toMatch(/host\.path.*guard\.enabled.*allow/s);
+		});
+
+		it("should resolve relative directories against the project", () => {
+			write(home, join('.pi', 'agent'), { host: { path: 'tools/pwsh/pwsh.exe' } });
+			write(project, '.pi', { jobs: { logDir: 'logs/jobs' } });
+
+			const { config } = loadConfig(project, home);
+
+			expect(config.jobs.logDir).toBe(join(project, 'logs', 'jobs'));
+			expect(config.host.path).toBe(join(project, 'tools', 'pwsh', 'pwsh.exe'));
+			expect(config.output.dir).toBe(tmpdir());
+		});
+	});
+});
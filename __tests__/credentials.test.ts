@@ -0,0 +1,112 @@
+/**
+ * Tests for remote session credential sources
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import type { Theme } from "@mariozechner/pi-coding-agent";
+import type { TUI } from "@mariozechner/pi-tui";
+import { credentialScript, CredentialError, PROMPTED_PASSWORD_VARIABLE } from "../src/session/credentials.js";
+import { SecretInput } from "../src/tools/credential-prompt.js";
+import { executePowerShell } from "../src/tools/powershell.js";
+
+describe("Credentials", () => {
+	describe("Scripts", () => {
+		it("should use the current user when there is no user name", () => {
+			expect(credentialScript(undefined, undefined)).toBeUndefined();
+		});
+
+		it("should refuse a user name without a source", () => {
+			expect(() => credentialScript(undefined, 'CORP\\admin')).toThrow(CredentialError);
+		});
+
+		it("should read environment variables by name", () => {
+			const script = credentialScript({ type: 'env', usernameVariable: 'WEB_USER', passwordVariable: 'WEB_PASSWORD' }, 'ignored')!;
+			expect(script).toContain('$__piUser = $env:WEB_USER');
+			expect(script).toContain('-String $env:WEB_PASSWORD');
+		});
+
+		it("should accept vault secrets holding a credential or just a password", () => {
+			const script = credentialScript({ type: 'vault', name: "o'brien", vault: 'Corp' }, 'CORP\\obrien')!;
+			expect(script).toContain("Get-Secret -Name 'o''brien' -Vault 'Corp'");
+			expect(script).toContain('-is [pscredential]');
+			expect(script).toContain("$__piUser = 'CORP\\obrien'");
+		});
+
+		it("should import CLIXML credential files", () => {
+			expect(credentialScript({ type: 'file', path: 'C:\\creds\\web.xml' }, undefined)).toContain("Import-Clixml -Path 'C:\\creds\\web.xml'");
+		});
+
+		it("should take a prompted password from the host's environment and remove it", () => {
+			const script = credentialScript({ type: 'prompt' }, 'admin')!;
+			expect(script).toContain(`$env:${PROMPTED_PASSWORD_VARIABLE}`);
+			expect(script).toContain(`Remove-Item -Path Env:${PROMPTED_PASSWORD_VARIABLE}`);
+		});
+	});
+
+	describe("Building", () => {
+		let isPowerShellAvailable = false;
+
+		beforeAll(async () => {
+			try {
+				const result = await executePowerShell({ command: "$PSVersionTable.PSVersion.Major", timeout: 5000 });
+				isPowerShellAvailable = result.success;
+			} catch {
+				isPowerShellAvailable = false;
+			}
+		});
+
+		it("should build the credential from environment variables without echoing the password", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const script = credentialScript({ type: 'env', passwordVariable: 'PI_TEST_PASSWORD' }, 'CORP\\deploy')!;
+			const result = await executePowerShell({
+				command: `${script}\n$global:__PiCredential.UserName\n$global:__PiCredential.GetNetworkCredential().Password -eq 'hunter2'`,
+				env: { PI_TEST_PASSWORD: 'hunter2' },
+				timeout: 15000,
+			});
+			expect(result.stdout.trim().split(/\r?\n/)).toEqual(['CORP\\deploy', 'True']);
+		});
+
+		it("should name the missing variable", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const script = credentialScript({ type: 'env', passwordVariable: 'PI_TEST_MISSING' }, 'CORP\\deploy')!;
+			const result = await executePowerShell({ command: script, timeout: 15000 });
+			expect(result.success).toBe(false);
+			expect(result.stderr).toContain('PI_TEST_MISSING is not set');
+		});
+	});
+
+	describe("Prompt", () => {
+		const theme = { fg: (_color: string, text: string) => text } as unknown as Theme;
+		const tui = { requestRender: () => {} } as unknown as TUI;
+
+		function type(keys: string[]): { value: string | undefined; lines: string[] } {
+			let value: string | undefined = 'unset';
+			const input = new SecretInput('Password for admin on web01', theme, tui, v => { value = v; });
+			for (const key of keys) input.handleInput(key);
+			return { value, lines: input.render(80) };
+		}
+
+		it("should mask what is typed", () => {
+			const { value, lines } = type(['s', 'e', 'c', 'r', 'e', 't', '\x7f']);
+			expect(value).toBe('unset');
+			expect(lines.join('\n')).not.toMatch(/secre/);
+			expect(lines[1]).toContain('•••••');
+		});
+
+		it("should submit on Enter, including pasted text", () => {
+			expect(type(['\x1b[200~pa ss\x1b[201~', '!', '\r']).value).toBe('pa ss!');
+		});
+
+		it("should cancel on Escape", () => {
+			expect(type(['x', '\x1b']).value).toBeUndefined();
+		});
+	});
+});
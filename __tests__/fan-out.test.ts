@@ -0,0 +1,65 @@
+/**
+ * Tests for running one command across several sessions
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Theme } from "@mariozechner/pi-coding-agent";
+import { resolveTargets, mapWithConcurrency, formatFanOut, hostMatrix, type HostResult } from "../src/tools/fan-out.js";
+import type { PSSessionInfo } from "../src/session/session-manager.js";
+
+function session(name: string, tags?: string[]): PSSessionInfo {
+	return { name, id: name, state: 'Connected', computerName: `${name}.corp`, createdAt: new Date(), lastUsed: new Date(), isLocal: false, commandCount: 0, options: { tags } };
+}
+
+describe("Fan-out", () => {
+	describe("Targets", () => {
+		const open = [session('web01', ['web', 'prod']), session('web02', ['web'])];
+		const defined = { web03: { computerName: 'web03', tags: ['web'] }, db01: { computerName: 'db01', tags: ['db'] } };
+
+		it("should expand tags over open and configured sessions, without duplicates", () => {
+			expect(resolveTargets(['web01', 'tag:web', 'tag:db'], open, defined)).toEqual({ names: ['web01', 'web02', 'web03', 'db01'], unmatched: [] });
+		});
+
+		it("should keep unknown names but report tags that match nothing", () => {
+			expect(resolveTargets(['gone', 'tag:cache'], open, defined)).toEqual({ names: ['gone'], unmatched: ['tag:cache'] });
+		});
+	});
+
+	describe("Concurrency", () => {
+		it("should never run more tasks at once than the limit, and keep the order", async () => {
+			let running = 0;
+			let peak = 0;
+			const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async ms => {
+				running++;
+				peak = Math.max(peak, running);
+				await new Promise(resolve => setTimeout(resolve, ms));
+				running--;
+				return ms * 2;
+			});
+			expect(peak).toBe(2);
+			expect(results).toEqual([60, 20, 40, 10, 30]);
+		});
+	});
+
+	describe("Results", () => {
+		const hosts: HostResult[] = [
+			{ session: 'web01', computerName: 'web01.corp', success: true, exitCode: 0, durationMs: 1200, output: 'Running' },
+			{ session: 'db01', computerName: 'db01.corp', success: false, exitCode: 1, durationMs: 800, output: 'Cannot find service' },
+		];
+
+		it("should group output per host and name the failures", () => {
+			const text = formatFanOut(hosts);
+			expect(text).toContain('### web01 (web01.corp): succeeded in 1.2s\nRunning');
+			expect(text).toContain('### db01 (db01.corp): failed (exit 1) in 800ms\nCannot find service');
+			expect(text.split('\n').pop()).toBe('1 of 2 sessions succeeded; failed: db01');
+		});
+
+		it("should render one row per host", () => {
+			const theme = { fg: (color: string, text: string) => color === 'error' ? `!${text}` : text } as unknown as Theme;
+			const rows = hostMatrix(hosts, theme);
+			expect(rows).toHaveLength(3);
+			expect(rows[0]).toMatch(/^✓ web01 {2}web01\.corp/);
+			expect(rows[1]).toMatch(/^!✗ !db01 {3}db01\.corp/);
+		});
+	});
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for incremental job log reads
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, appendFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { readLogWindow } from "../src/jobs/job-logs.js";
+
+describe("Job Log Windows", () => {
+	let dir: string;
+	let file: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'pi-ps-logs-'));
+		file = join(dir, 'job.log');
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	describe("Cursor Reads", () => {
+		it("should return only output appended since the cursor", () => {
+			writeFileSync(file, 'line 1\nline 2\n');
+			const first = readLogWindow(file, { start: 0 });
+			expect(first.text).toBe('line 1\nline 2\n');
+			expect(first.end).toBe(14);
+
+			appendFileSync(file, 'line 3\n');
+			const second = readLogWindow(file, { start: first.end });
+			expect(second.text).toBe('line 3\n');
+			expect(second.end).toBe(second.size);
+		});
+
+		it("should return nothing new at the end of the file", () => {
+			writeFileSync(file, 'done\n');
+			const res = readLogWindow(file, { start: 5 });
+			expect(res.text).toBe('');
+			expect(res.end).toBe(5);
+		});
+
+		it("should restart from the beginning when the log was truncated", () => {
+			writeFileSync(file, 'new\n');
+			const res = readLogWindow(file, { start: 1000 });
+			expect(res.start).toBe(0);
+			expect(res.text).toBe('new\n');
+		});
+
+		it("should treat a missing file as empty", () => {
+			expect(readLogWindow(join(dir, 'missing.log'), { start: 0 })).toEqual({ text: '', start: 0, end: 0, size: 0 });
+		});
+	});
+
+	describe("Encoding", () => {
+		it("should leave a half-written UTF-8 character for the next read", () => {
+			const euro = Buffer.from('€', 'utf8');  // 3 bytes
+			writeFileSync(file, Buffer.concat([Buffer.from('price: '), euro.subarray(0, 2)]));
+
+			const first = readLogWindow(file, { start: 0 });
+			expect(first.text).toBe('price: ');
+			expect(first.end).toBe(7);
+
+			appendFileSync(file, Buffer.concat([euro.subarray(2), Buffer.from('5\n')]));
+			expect(readLogWindow(file, { start: first.end }).text).toBe('€5\n');
+		});
+
+		it("should not start inside a multi-byte character", () => {
+			writeFileSync(file, 'ñandú\n');
+			const res = readLogWindow(file, { start: 1 });  // inside 'ñ'
+			expect(res.text).toBe('andú\n');
+			expect(res.start).toBe(2);
+		});
+
+		it("should read UTF-16LE logs from Windows PowerShell", () => {
+			writeFileSync(file, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('one\r\ntwo\r\n', 'utf16le')]));
+
+			const all = readLogWindow(file, { start: 0 });
+			expect(all.text).toBe('one\r\ntwo\r\n');
+			expect(all.start).toBe(2);
+
+			const rest = readLogWindow(file, { start: 2 + Buffer.byteLength('one\r\n', 'utf16le') });
+			expect(rest.text).toBe('two\r\n');
+		});
+	});
+
+	describe("Line Windows", () => {
+		beforeEach(() => {
+			writeFileSync(file, 'a\nb\nc\nd\n');
+		});
+
+		it("should return the first N lines and stop the cursor after them", () => {
+			const res = readLogWindow(file, { start: 0, head: 2 });
+			expect(res.text).toBe('a\nb\n');
+			expect(res.end).toBe(4);
+			expect(readLogWindow(file, { start: res.end, head: 2 }).text).toBe('c\nd\n');
+		});
+
+		it("should return the last N lines and move the cursor to the end", () => {
+			const res = readLogWindow(file, { start: 0, tail: 2 });
+			expect(res.text).toBe('c\nd\n');
+			expect(res.start).toBe(4);
+			expect(res.end).toBe(8);
+		});
+
+		it("should include a trailing partial line", () => {
+			appendFileSync(file, 'partial');
+			expect(readLogWindow(file, { start: 0, tail: 1 }).text).toBe('partial');
+		});
+
+		it("should return nothing for zero lines", () => {
+			expect(readLogWindow(file, { start: 0, tail: 0 })).toMatchObject({ text: '', start: 8, end: 8 });
+			expect(readLogWindow(file, { start: 2, head: 0 })).toMatchObject({ text: '', start: 2, end: 2 });
+		});
+
+		it("should find lines across read chunks", () => {
+			const long = 'x'.repeat(100 * 1024);
+			writeFileSync(file, `first\n${long}\nlast\n`);
+
+			expect(readLogWindow(file, { start: 0, tail: 2 }).text).toBe(`${long}\nlast\n`);
+			expect(readLogWindow(file, { start: 0, head: 2 }).text).toBe(`first\n${long}\n`);
+		});
+
+		it("should count UTF-16LE lines", () => {
+			writeFileSync(file, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('one\r\ntwo\r\nthree', 'utf16le')]));
+
+			expect(readLogWindow(file, { start: 0, tail: 2 }).text).toBe('two\r\nthree');
+			expect(readLogWindow(file, { start: 0, head: 1 }).text).toBe('one\r\n');
+		});
+	});
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for the persistent job registry
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+	jobs, loadJobs, saveJobs, getStateFilePath, isSameProcess, readExitStatus, markFinished,
+	getJobState, isFailedJob, formatDuration, formatJobStatus, type TrackedJob,
+} from "../src/jobs/job-registry.js";
+
+function makeJob(overrides: Partial<TrackedJob> = {}): TrackedJob {
+	return {
+		pid: 4242,
+		name: 'dev',
+		command: 'npm run dev',
+		workingDirectory: 'C:/dev/app',
+		stdoutFile: 'C:/tmp/pi-job-dev-stdout.log',
+		stderrFile: null,
+		startedAt: new Date('2025-01-01T10:00:00.000Z'),
+		processStartTime: '2025-01-01T10:00:00.1234567Z',
+		...overrides,
+	};
+}
+
+describe("Job Registry", () => {
+	let projectDir: string;
+
+	beforeEach(() => {
+		projectDir = mkdtempSync(join(tmpdir(), 'pi-ps-registry-'));
+	});
+
+	afterEach(() => {
+		jobs.clear();
+		rmSync(projectDir, { recursive: true, force: true });
+	});
+
+	describe("Persistence", () => {
+		it("should start empty when no state file exists", () => {
+			expect(loadJobs(projectDir)).toEqual([]);
+			expect(jobs.size).toBe(0);
+		});
+
+		it("should round-trip jobs through the state file", () => {
+			loadJobs(projectDir);
+			jobs.set('dev', makeJob());
+			saveJobs();
+
+			jobs.clear();
+			const loaded = loadJobs(projectDir);
+
+			expect(loaded).toHaveLength(1);
+			expect(jobs.get('dev')?.pid).toBe(4242);
+			expect(jobs.get('dev')?.startedAt).toBeInstanceOf(Date);
+			expect(jobs.get('dev')?.startedAt.toISOString()).toBe('2025-01-01T10:00:00.000Z');
+			expect(jobs.get('dev')?.processStartTime).toBe('2025-01-01T10:00:00.1234567Z');
+		});
+
+		it("should persist the exited flag", () => {
+			loadJobs(projectDir);
+			jobs.set('dev', makeJob({ exited: true }));
+			saveJobs();
+
+			loadJobs(projectDir);
+			expect(jobs.get('dev')?.exited).toBe(true);
+		});
+
+		it("should ignore a corrupt state file", () => {
+			const file = getStateFilePath(projectDir);
+			mkdirSync(join(projectDir, '.pi'), { recursive: true });
+			writeFileSync(file, '{ not json');
+
+			expect(loadJobs(projectDir)).toEqual([]);
+		});
+	});
+
+	describe("Process Identity", () => {
+		it("should match the same start time", () => {
+			expect(isSameProcess(makeJob(), '2025-01-01T10:00:00.1234567Z')).toBe(true);
+		});
+
+		it("should tolerate sub-second drift", () => {
+			expect(isSameProcess(makeJob(), '2025-01-01T10:00:00.4000000Z')).toBe(true);
+		});
+
+		it("should reject a reused PID with a different start time", () => {
+			expect(isSameProcess(makeJob(), '2025-01-02T08:30:00.0000000Z')).toBe(false);
+		});
+
+		it("should reject when no live process or no recorded start time", () => {
+			expect(isSameProcess(makeJob(), undefined)).toBe(false);
+			expect(isSameProcess(makeJob({ processStartTime: undefined }), '2025-01-01T10:00:00.1234567Z')).toBe(false);
+		});
+	});
+
+	describe("Exit Status", () => {
+		it("should read the status file written by the job wrapper", () => {
+			const file = join(projectDir, 'status.json');
+			writeFileSync(file, '\uFEFF{"exitCode":3,"finishedAt":"2025-01-01T10:05:00.000Z"}');
+
+			expect(readExitStatus(file)).toEqual({ exitCode: 3, finishedAt: new Date('2025-01-01T10:05:00.000Z') });
+			expect(readExitStatus(join(projectDir, 'missing.json'))).toBeNull();
+		});
+
+		it("should report a job with a status file as exited with its code", () => {
+			const statusFile = join(projectDir, 'status.json');
+			writeFileSync(statusFile, '{"exitCode":1,"finishedAt":"2025-01-01T10:00:03.200Z"}');
+			const job = makeJob({ statusFile });
+
+			markFinished(job);
+
+			expect(job.exited).toBe(true);
+			expect(getJobState(job, false)).toBe('Exited');
+			expect(isFailedJob(job)).toBe(true);
+			expect(formatJobStatus(job, false)).toBe('Exited(1) after 3.2s');
+		});
+
+		it("should report a job without a status file as killed", () => {
+			const job = makeJob({ statusFile: join(projectDir, 'missing.json') });
+
+			markFinished(job);
+
+			expect(getJobState(job, false)).toBe('Killed');
+			expect(isFailedJob(job)).toBe(false);
+			expect(job.finishedAt).toBeInstanceOf(Date);
+		});
+
+		it("should report runtime for running jobs", () => {
+			const now = new Date('2025-01-01T10:05:12.000Z');
+			expect(formatJobStatus(makeJob(), true, now)).toBe('Running for 5m 12s');
+		});
+
+		it("should format durations", () => {
+			expect(formatDuration(850)).toBe('850ms');
+			expect(formatDuration(4200)).toBe('4.2s');
+			expect(formatDuration(312000)).toBe('5m 12s');
+			expect(formatDuration(7380000)).toBe('2h 3m');
+		});
+
+		it("should persist exit code and finish time", () => {
+			loadJobs(projectDir);
+			jobs.set('dev', makeJob({ exited: true, exitCode: 0, finishedAt: new Date('2025-01-01T11:00:00.000Z') }));
+			saveJobs();
+
+			loadJobs(projectDir);
+			expect(jobs.get('dev')?.exitCode).toBe(0);
+			expect(jobs.get('dev')?.finishedAt?.toISOString()).toBe('2025-01-01T11:00:00.000Z');
+		});
+	});
+});
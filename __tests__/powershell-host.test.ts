@@ -0,0 +1,58 @@
+/**
+ * Tests for PowerShell host discovery
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { parseHostProbe, candidatePaths, resolveHost, configureHost, describeHost, PowerShellHostError } from "../src/process/powershell-host.js";
+
+describe("PowerShell Host", () => {
+	afterEach(() => {
+		configureHost({});
+	});
+
+	describe("Version Probe", () => {
+		it("should parse PowerShell 7 output", () => {
+			expect(parseHostProbe('pwsh', '7.4.6\r\nCore\r\n')).toEqual({ path: 'pwsh', edition: 'core', version: '7.4.6' });
+		});
+
+		it("should parse Windows PowerShell 5.1 output", () => {
+			const host = parseHostProbe('powershell.exe', '5.1.19041.5247\nDesktop\n');
+
+			expect(host).toEqual({ path: 'powershell.exe', edition: 'desktop', version: '5.1.19041.5247' });
+			expect(describeHost(host!)).toBe('Windows PowerShell 5.1.19041.5247');
+		});
+
+		it("should reject output that isn't a version", () => {
+			expect(parseHostProbe('x', '')).toBeNull();
+			expect(parseHostProbe('x', 'The term is not recognized')).toBeNull();
+		});
+	});
+
+	describe("Discovery", () => {
+		it("should look for pwsh before the standard install folders on Windows", () => {
+			const paths = candidatePaths('core', 'win32', { ProgramFiles: 'D:\\Apps' });
+
+			expect(paths[0]).toBe('pwsh.exe');
+			expect(paths).toContain('D:\\Apps\\PowerShell\\7\\pwsh.exe');
+		});
+
+		it("should only offer Windows PowerShell on Windows", () => {
+			expect(candidatePaths('desktop', 'linux')).toEqual([]);
+			expect(candidatePaths('desktop', 'win32', { SystemRoot: 'C:\\Windows' })).toContain('C:\\Windows\\System32\\WindowsPowerShell\\v1.0\\powershell.exe');
+		});
+
+		it("should explain what was tried when no host is usable", async () => {
+			if (process.platform === 'win32') {
+				console.log("Skipping test: Windows PowerShell is always present on Windows");
+				return;
+			}
+
+			configureHost({ path: '/nonexistent/pwsh' });
+			const error = await resolveHost('desktop').catch(e => e);
+
+			expect(error).toBeInstanceOf(PowerShellHostError);
+			expect(error.message).toContain('No usable Windows PowerShell 5.1 host found');
+			expect(error.tried).toEqual(['/nonexistent/pwsh']);
+		});
+	});
+});
@@ -3,7 +3,10 @@
  */
 
 import { describe, it, expect, beforeAll } from "vitest";
-import { executePowerShell } from "../src/tools/powershell.js";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { executePowerShell, buildEnvironment, validateEnv } from "../src/tools/powershell.js";
 
 describe("PowerShell Tool", () => {
 	// Skip tests if PowerShell is not available
@@ -83,6 +86,191 @@ describe("PowerShell Tool", () => {
 		}, 10000);
 	});
 
+	describe("Cancellation", () => {
+		it("should not start a command when already aborted", async () => {
+			const controller = new AbortController();
+			controller.abort();
+
+			const result = await executePowerShell({ command: "Write-Output 'never'", signal: controller.signal });
+
+			expect(result.cancelled).toBe(true);
+			expect(result.success).toBe(false);
+			expect(result.stdout).toBe('');
+		});
+
+		it("should kill a running command on abort and keep partial output", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const controller = new AbortController();
+			const started = Date.now();
+			const promise = executePowerShell({
+				command: "Write-Output 'before'; Start-Sleep -Seconds 20; Write-Output 'after'",
+				timeout: 30000,
+				signal: controller.signal,
+			}, (partial) => {
+				if (partial.includes('before')) controller.abort();
+			});
+
+			const result = await promise;
+
+			expect(result.cancelled).toBe(true);
+			expect(result.success).toBe(false);
+			expect(result.stdout).toContain('before');
+			expect(result.stdout).not.toContain('after');
+			expect(Date.now() - started).toBeLessThan(15000);
+		}, 30000);
+	});
+
+	describe("Environment", () => {
+		it("should inherit the environment unless overridden", () => {
+			expect(buildEnvironment()).toBeUndefined();
+
+			const env = buildEnvironment({ PI_TEST_VAR: "a 'quoted' $value" });
+			expect(env?.PI_TEST_VAR).toBe("a 'quoted' $value");
+			expect(env?.PATH ?? env?.Path).toBe(process.env.PATH ?? process.env.Path);
+		});
+
+		it("should keep only essential variables with cleanEnv", () => {
+			process.env.PI_TEST_INHERITED = "1";
+			try {
+				const env = buildEnvironment({ ONLY_THIS: "x" }, true);
+				expect(env?.PI_TEST_INHERITED).toBeUndefined();
+				expect(env?.ONLY_THIS).toBe("x");
+				expect(env?.PATH ?? env?.Path).toBeDefined();
+			} finally {
+				delete process.env.PI_TEST_INHERITED;
+			}
+		});
+
+		it("should reject invalid variable names", () => {
+			expect(validateEnv({ GOOD: "1" })).toBeNull();
+			expect(validateEnv({ "A=B": "1" })).toContain("Invalid environment variable name");
+			expect(validateEnv({ "": "1" })).toContain("Invalid environment variable name");
+		});
+
+		it("should pass values to the command verbatim", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const result = await executePowerShell({
+				command: "Write-Output $env:PI_TEST_VAR",
+				env: { PI_TEST_VAR: `it's "$(danger)" ; exit 1` },
+			});
+
+			expect(result.success).toBe(true);
+			expect(result.stdout).toBe(`it's "$(danger)" ; exit 1`);
+		});
+	});
+
+	describe("Script Files", () => {
+		it("should decode script output like command output and pass the exit code on", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const dir = mkdtempSync(join(tmpdir(), 'pi-script-'));
+			const path = join(dir, 'greet.ps1');
+			writeFileSync(path, '\uFEFFparam([string]$Name, [int]$Code)\nWrite-Output "Olá, $Name — ñ €"\nexit $Code\n', 'utf8');
+			try {
+				const script = await executePowerShell({ command: `& ${path}`, file: { path, args: [{ name: 'Name', value: "José's" }, { name: 'Code', value: '3' }] } });
+				const command = await executePowerShell({ command: `Write-Output "Olá, José's — ñ €"` });
+
+				expect(script.stdout).toBe(command.stdout);
+				expect(script.exitCode).toBe(3);
+			} finally {
+				rmSync(dir, { recursive: true, force: true });
+			}
+		});
+
+		it("should pass dash-led values as values and fail on PowerShell errors", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const dir = mkdtempSync(join(tmpdir(), 'pi-script-'));
+			const path = join(dir, 'check.ps1');
+			writeFileSync(path, 'param([string]$Mode, [switch]$Force)\nWrite-Output "mode=$Mode force=$Force"\nif ($Mode -eq "fail") { Write-Error "bad mode" }\n', 'utf8');
+			try {
+				const dashed = await executePowerShell({ command: `& ${path}`, file: { path, args: [{ name: 'Mode', value: '-Force' }] } });
+				expect(dashed).toMatchObject({ stdout: 'mode=-Force force=False', exitCode: 0, success: true });
+
+				const failed = await executePowerShell({ command: `& ${path}`, file: { path, args: [{ name: 'Mode', value: 'fail' }] } });
+				expect(failed).toMatchObject({ exitCode: 1, success: false });
+			} finally {
+				rmSync(dir, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe("Structured Output", () => {
+		it("should return pipeline objects parsed, separate from host output", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const result = await executePowerShell({
+				command: "Write-Host 'hello'; 1..3 | ForEach-Object { [pscustomobject]@{ N = $_; Name = \"item $_\" } }",
+				output: { format: 'json' },
+			});
+
+			expect(result.success).toBe(true);
+			expect(result.stdout).toBe('hello');
+			expect(result.structured?.items).toEqual([
+				{ N: 1, Name: 'item 1' },
+				{ N: 2, Name: 'item 2' },
+				{ N: 3, Name: 'item 3' },
+			]);
+		});
+
+		it("should report a failing command as a failure", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const missing = await executePowerShell({ command: "Get-Item -LiteralPath './does-not-exist.txt'", output: { format: 'json' } });
+			expect(missing).toMatchObject({ success: false, exitCode: 1 });
+			expect(missing.structured?.items).toEqual([]);
+
+			const native = await executePowerShell({ command: "pwsh -NoProfile -Command 'exit 4'", output: { format: 'json' } });
+			expect(native).toMatchObject({ success: false, exitCode: 4 });
+		});
+
+		it("should always return an array, even for one object or none", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const one = await executePowerShell({ command: "@{ a = 1 }", output: { format: 'json' } });
+			const none = await executePowerShell({ command: "$null = 1", output: { format: 'json' } });
+
+			expect(one.structured?.items).toEqual([{ a: 1 }]);
+			expect(none.structured?.items).toEqual([]);
+		});
+
+		it("should cap whole items instead of cutting the JSON", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const result = await executePowerShell({ command: "1..500", output: { format: 'json', maxItems: 10 } });
+
+			expect(result.structured?.items).toHaveLength(10);
+			expect(result.structured?.totalItems).toBe(500);
+			expect(result.structured?.truncated).toBe(true);
+		});
+	});
+
 	describe("Batch Command Handling - Error Recovery", () => {
 		it("should handle npm commands with error recovery", async () => {
 			if (!isPowerShellAvailable) {
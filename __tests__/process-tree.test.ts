@@ -0,0 +1,107 @@
+/**
+ * Tests for process tree enumeration and termination
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import { spawn } from "child_process";
+import { executePowerShell } from "../src/tools/powershell.js";
+import { parseProcessList, collectDescendants, killProcessTree, isPidAlive, type ProcessEntry } from "../src/process/process-tree.js";
+
+describe("Process Tree", () => {
+	describe("Enumeration", () => {
+		it("should parse 'pid parentPid start' lines", () => {
+			const entries = parseProcessList("100 1 1700000000000\r\n200 100 1700000001000\n\ngarbage\n300 200 0\n");
+
+			expect(entries).toEqual([
+				{ pid: 100, parentPid: 1, startedAt: 1700000000000 },
+				{ pid: 200, parentPid: 100, startedAt: 1700000001000 },
+				{ pid: 300, parentPid: 200, startedAt: 0 },
+			]);
+		});
+
+		it("should collect all descendants breadth-first, root first", () => {
+			const procs: ProcessEntry[] = [
+				{ pid: 1, parentPid: 0, startedAt: 1 },
+				{ pid: 10, parentPid: 1, startedAt: 10 },
+				{ pid: 11, parentPid: 10, startedAt: 11 },
+				{ pid: 12, parentPid: 10, startedAt: 12 },
+				{ pid: 13, parentPid: 11, startedAt: 13 },
+				{ pid: 99, parentPid: 1, startedAt: 99 },
+			];
+
+			expect(collectDescendants(10, procs)).toEqual([10, 11, 12, 13]);
+		});
+
+		it("should ignore children older than their parent (recycled parent PID)", () => {
+			const procs: ProcessEntry[] = [
+				{ pid: 10, parentPid: 1, startedAt: 5000 },
+				{ pid: 11, parentPid: 10, startedAt: 6000 },
+				{ pid: 12, parentPid: 10, startedAt: 1000 },  // parent of 12 was an earlier process with PID 10
+			];
+
+			expect(collectDescendants(10, procs)).toEqual([10, 11]);
+		});
+
+		it("should return nothing when the root is gone", () => {
+			expect(collectDescendants(42, [{ pid: 1, parentPid: 0, startedAt: 0 }])).toEqual([]);
+		});
+
+		it("should not loop on self-parented entries", () => {
+			expect(collectDescendants(0, [{ pid: 0, parentPid: 0, startedAt: 0 }])).toEqual([0]);
+		});
+	});
+
+	describe("Termination", () => {
+		let isPowerShellAvailable = false;
+
+		beforeAll(async () => {
+			try {
+				const result = await executePowerShell({ command: "$PSVersionTable.PSVersion.Major", timeout: 5000 });
+				isPowerShellAvailable = result.success;
+			} catch {
+				isPowerShellAvailable = false;
+			}
+		});
+
+		it("should kill a parent and its grandchild", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			// Parent node process that spawns a long-running child and prints its PID
+			const parent = spawn(process.execPath, ['-e', `
+				const c = require('child_process').spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' });
+				console.log(c.pid);
+				setInterval(() => {}, 1000);
+			`], { stdio: ['ignore', 'pipe', 'ignore'] });
+			const childPid = await new Promise<number>(resolve => parent.stdout!.once('data', d => resolve(parseInt(d.toString(), 10))));
+
+			const tree = await killProcessTree(parent.pid!, { gracePeriodMs: 2000 });
+
+			expect(tree.pids).toContain(parent.pid);
+			expect(tree.pids).toContain(childPid);
+			expect(tree.survived).toEqual([]);
+			expect(isPidAlive(childPid)).toBe(false);
+		}, 30000);
+
+		it("should kill what a timed-out command started", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const result = await executePowerShell({
+				command: `& '${process.execPath}' -e "console.log(process.pid); setInterval(() => {}, 1000)"`,
+				timeout: 3000,
+			});
+			const childPid = parseInt(result.stdout, 10);
+
+			expect(result.timedOut).toBe(true);
+			expect(childPid).toBeGreaterThan(0);
+			// The tree is killed in the background once the result is in
+			for (let i = 0; i < 50 && isPidAlive(childPid); i++) await new Promise(resolve => setTimeout(resolve, 100));
+			expect(isPidAlive(childPid)).toBe(false);
+		}, 30000);
+	});
+});
@@ -0,0 +1,59 @@
+/**
+ * Tests for PSSession tool output
+ */
+
+import { describe, it, expect } from "vitest";
+import { describeHealth, describeSession, describeSessionDetails, describeTransfer } from "../src/tools/psession-tools.js";
+import type { PSSessionInfo } from "../src/session/session-manager.js";
+
+describe("PSSession Tools", () => {
+	const info: PSSessionInfo = { name: 'web', id: '1', state: 'Connected', computerName: 'web01', createdAt: new Date(), lastUsed: new Date(), isLocal: false, commandCount: 0 };
+	const checkedAt = new Date();
+
+	it("should show the round trip of a connected session", () => {
+		expect(describeHealth(info, { name: 'web', state: 'Connected', latencyMs: 34, checkedAt })).toBe("Session 'web' (web01): Connected — 34 ms round trip");
+	});
+
+	it("should say when a reconnect lost the session's state", () => {
+		const text = describeHealth(info, { name: 'web', state: 'Connected', latencyMs: 80, reconnected: true, stateLost: true, checkedAt });
+		expect(text).toMatch(/Reconnected with a new session/);
+	});
+
+	it("should suggest reconnecting a disconnected session", () => {
+		const text = describeHealth(info, { name: 'web', state: 'Disconnected', error: 'Remote session is Broken', checkedAt });
+		expect(text).toContain('Remote session is Broken');
+		expect(text).toContain('reconnect: true');
+	});
+
+	describe("Inspection", () => {
+		const now = new Date('2026-01-01T12:00:00Z');
+		const session: PSSessionInfo = {
+			name: 'agent', id: '2', state: 'Connected', computerName: 'build01', transport: 'ssh', isLocal: false,
+			createdAt: new Date('2026-01-01T10:00:00Z'), lastUsed: new Date('2026-01-01T11:50:00Z'), commandCount: 12, location: '/home/ci',
+		};
+
+		it("should summarise a session on one line", () => {
+			expect(describeSession(session, now)).toBe("agent (SSH → build01): Connected, open 2h 0m, last used 10m 0s ago, 12 command(s), in /home/ci");
+		});
+
+		it("should say when the idle timeout will close a session", () => {
+			const text = describeSessionDetails(session, 1800, now);
+			expect(text).toContain('Commands: 12');
+			expect(text).toContain('Idle timeout: closed after 30m 0s unused (20m 0s left)');
+			expect(describeSessionDetails(session, 0, now)).not.toContain('Idle timeout');
+		});
+	});
+
+	describe("Copies", () => {
+		it("should summarise a verified copy", () => {
+			expect(describeTransfer('to', info, { copied: ['a', 'b'], skipped: ['c'], bytes: 3 * 1024 * 1024, verified: true, mismatched: [] }))
+				.toBe('Copied 2 files (3.0 MB) to web01, skipped 1 existing, checksums match');
+		});
+
+		it("should name copies whose checksum differs", () => {
+			const text = describeTransfer('from', info, { copied: ['app.log'], skipped: [], bytes: 200, verified: false, mismatched: ['app.log'] });
+			expect(text).toContain('Copied 1 file (200 B) from web01');
+			expect(text).toContain('differ from their source: app.log');
+		});
+	});
+});
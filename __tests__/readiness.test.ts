@@ -0,0 +1,140 @@
+/**
+ * Tests for background job readiness probes
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, appendFileSync } from "fs";
+import { createServer as createNetServer, type Server as NetServer, type AddressInfo } from "net";
+import { createServer as createHttpServer, type Server as HttpServer } from "http";
+import { spawnSync } from "child_process";
+import { tmpdir } from "os";
+import { join } from "path";
+import { waitForReady, validateReadyCriteria } from "../src/jobs/readiness.js";
+import { isPidAlive } from "../src/process/process-tree.js";
+import { decodeLog } from "../src/jobs/job-logs.js";
+
+/** PID of a process that has already exited */
+function deadPid(): number {
+	return spawnSync(process.execPath, ['-e', '']).pid!;
+}
+
+describe("Job Readiness", () => {
+	let dir: string;
+	let logFile: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'pi-ps-ready-'));
+		logFile = join(dir, 'job.log');
+		writeFileSync(logFile, '');
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	describe("Validation", () => {
+		it("should require at least one criterion", () => {
+			expect(validateReadyCriteria({ timeout: 1000 }, [logFile])).toMatch(/at least one/);
+		});
+
+		it("should reject a log pattern without captured output", () => {
+			expect(validateReadyCriteria({ logPattern: 'ready' }, [])).toMatch(/captured output/);
+		});
+
+		it("should reject an invalid regex", () => {
+			expect(validateReadyCriteria({ logPattern: '(' }, [logFile])).toMatch(/Invalid readyWhen.logPattern/);
+		});
+
+		it("should reject non-HTTP URLs", () => {
+			expect(validateReadyCriteria({ url: 'ftp://x' }, [])).toMatch(/http/);
+		});
+
+		it("should accept valid criteria", () => {
+			expect(validateReadyCriteria({ logPattern: 'Local:.*http', port: 5173 }, [logFile])).toBeNull();
+		});
+	});
+
+	describe("Probes", () => {
+		it("should become ready when the log pattern appears", async () => {
+			setTimeout(() => appendFileSync(logFile, 'compiling...\n  Local: http://localhost:5173/\n'), 150);
+			const progress: string[][] = [];
+
+			const res = await waitForReady({ pid: process.pid, logFiles: [logFile] }, { logPattern: 'Local:.*http', timeout: 5000 }, (_ms, pending) => progress.push(pending), 50);
+
+			expect(res.status).toBe('ready');
+			expect(res.pending).toEqual([]);
+			expect(progress.length).toBeGreaterThan(0);
+			expect(progress[0][0]).toContain('log matches');
+		});
+
+		it("should become ready when a port accepts connections", async () => {
+			const server: NetServer = createNetServer(s => s.end());
+			await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+			const port = (server.address() as AddressInfo).port;
+			try {
+				const res = await waitForReady({ pid: process.pid, logFiles: [] }, { port, host: '127.0.0.1', timeout: 5000 }, undefined, 50);
+				expect(res.status).toBe('ready');
+			} finally {
+				server.close();
+			}
+		});
+
+		it("should only be ready on a 2xx HTTP response", async () => {
+			let status = 503;
+			const server: HttpServer = createHttpServer((_req, res) => { res.statusCode = status; res.end(); });
+			await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+			const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+			setTimeout(() => { status = 200; }, 200);
+			try {
+				const res = await waitForReady({ pid: process.pid, logFiles: [] }, { url, timeout: 5000 }, undefined, 50);
+				expect(res.status).toBe('ready');
+				expect(res.elapsedMs).toBeGreaterThanOrEqual(150);
+			} finally {
+				server.close();
+			}
+		});
+
+		it("should stop waiting as soon as the signal aborts", async () => {
+			const controller = new AbortController();
+			setTimeout(() => controller.abort(), 100);
+			const started = Date.now();
+
+			const res = await waitForReady({ pid: process.pid, logFiles: [logFile] }, { logPattern: 'never', timeout: 30000 }, undefined, 10000, controller.signal);
+
+			expect(res.status).toBe('cancelled');
+			expect(res.pending[0]).toContain('never');
+			expect(Date.now() - started).toBeLessThan(2000);
+		});
+
+		it("should report timeout with the pending criteria and log tail", async () => {
+			writeFileSync(logFile, 'starting\nstill starting\n');
+
+			const res = await waitForReady({ pid: process.pid, logFiles: [logFile] }, { logPattern: 'never', timeout: 200 }, undefined, 50);
+
+			expect(res.status).toBe('timeout');
+			expect(res.pending[0]).toContain('never');
+			expect(res.logTail).toContain('still starting');
+		});
+
+		it("should report an early exit with the log tail", async () => {
+			writeFileSync(logFile, 'Error: EADDRINUSE\n');
+
+			const res = await waitForReady({ pid: deadPid(), logFiles: [logFile] }, { logPattern: 'Local:', timeout: 5000 }, undefined, 50);
+
+			expect(res.status).toBe('exited');
+			expect(res.logTail).toContain('EADDRINUSE');
+		});
+	});
+
+	describe("Helpers", () => {
+		it("should detect live and dead PIDs", () => {
+			expect(isPidAlive(process.pid)).toBe(true);
+			expect(isPidAlive(deadPid())).toBe(false);
+		});
+
+		it("should decode UTF-16LE logs written by Windows PowerShell", () => {
+			const buf = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('héllo', 'utf16le')]);
+			expect(decodeLog(buf)).toBe('héllo');
+		});
+	});
+});
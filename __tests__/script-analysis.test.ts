@@ -0,0 +1,87 @@
+/**
+ * Tests for parsing commands before they run
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import { formatParseErrors, type ParseError } from "../src/tools/script-analysis.js";
+import { executePowerShell, analyzeScript } from "../src/tools/powershell.js";
+import { evaluateCommands, DEFAULT_RULES } from "../src/guard/command-guard.js";
+
+function parseError(line: number, column: number, endColumn: number, token: string, message = 'Unexpected token'): ParseError {
+	return { line, column, endLine: line, endColumn, token, message, id: 'UnexpectedToken' };
+}
+
+describe("Script Analysis", () => {
+	describe("Error Formatting", () => {
+		it("should point a caret at the offending token", () => {
+			const text = formatParseErrors("Get-Date\nif ($a -eq 1 { 'x' }) }", [parseError(2, 21, 22, ')')]);
+			expect(text).toBe([
+				"line 2, column 21: Unexpected token (near ')')",
+				"  2 | if ($a -eq 1 { 'x' }) }",
+				"    |                     ^",
+			].join('\n'));
+		});
+
+		it("should underline multi-character tokens and keep tab indentation", () => {
+			const text = formatParseErrors("\tWrite-Host 'a' 'b' foo", [parseError(1, 21, 24, 'foo')]);
+			expect(text.split('\n')[2]).toBe("    | \t                   ^^^");
+		});
+
+		it("should show a single caret for errors at the end of input", () => {
+			const text = formatParseErrors("function f {\n\tGet-Date", [{ ...parseError(2, 10, 10, ''), message: "Missing closing '}'" }]);
+			expect(text).toBe("line 2, column 10: Missing closing '}'\n  2 | \tGet-Date\n    | \t        ^");
+		});
+
+		it("should cap the number of errors reported", () => {
+			const errors = Array.from({ length: 8 }, (_, i) => parseError(1, i + 1, i + 2, 'x'));
+			const text = formatParseErrors("xxxxxxxxxx", errors);
+			expect(text.match(/^line /gm)).toHaveLength(5);
+			expect(text).toContain('... 3 more error(s)');
+		});
+	});
+
+	describe("Parsing", () => {
+		let isPowerShellAvailable = false;
+
+		beforeAll(async () => {
+			try {
+				const result = await executePowerShell({ command: "$PSVersionTable.PSVersion.Major", timeout: 5000 });
+				isPowerShellAvailable = result.success;
+			} catch {
+				isPowerShellAvailable = false;
+			}
+		});
+
+		it("should not start an analysis for a cancelled call", async () => {
+			const controller = new AbortController();
+			controller.abort();
+
+			expect(await analyzeScript("Get-Date", { signal: controller.signal })).toBeUndefined();
+		});
+
+		it("should list commands with aliases resolved, without running them", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const analysis = await analyzeScript("Write-Output start\nrm -r -Force C:\\\n");
+			expect(analysis?.errors).toEqual([]);
+			expect(analysis!.commands.map(c => c.resolved)).toEqual(['Write-Output', 'Remove-Item']);
+			expect(analysis!.commands[1]).toMatchObject({ name: 'rm', parameters: ['r', 'Force'], arguments: ['C:\\'], line: 2 });
+			expect(evaluateCommands(analysis!.commands, DEFAULT_RULES).action).toBe('deny');
+		});
+
+		it("should report syntax errors with their position", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const analysis = await analyzeScript("Get-Date\nif ($true) {\n\tWrite-Output 'x'\n");
+			expect(analysis!.errors.length).toBeGreaterThan(0);
+			expect(analysis!.errors[0]).toMatchObject({ id: 'MissingEndCurlyBrace' });
+			expect(analysis!.errors[0].line).toBeGreaterThanOrEqual(2);
+		});
+	});
+});
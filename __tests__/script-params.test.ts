@@ -0,0 +1,116 @@
+/**
+ * Tests for .ps1 parameter validation and argument building
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { executePowerShell } from "../src/tools/powershell.js";
+import { READ_SCRIPT_PARAMS, validateScriptParameters, buildScriptArgs, formatScriptArgument, type ScriptInfo } from "../src/tools/script-params.js";
+
+const info: ScriptInfo = {
+	parameters: [
+		{ name: 'Configuration', type: 'String', mandatory: true, isSwitch: false, isArray: false },
+		{ name: 'Retries', type: 'Int32', mandatory: false, isSwitch: false, isArray: false },
+		{ name: 'Clean', type: 'SwitchParameter', mandatory: false, isSwitch: true, isArray: false },
+		{ name: 'Publish', type: 'Boolean', mandatory: false, isSwitch: false, isArray: false },
+	],
+	cmdletBinding: false,
+	errors: [],
+};
+
+describe("Script Parameters", () => {
+	describe("Validation", () => {
+		it("should accept valid parameters, case-insensitively", () => {
+			expect(validateScriptParameters(info, { configuration: 'Release', Retries: 3, Clean: true })).toEqual([]);
+		});
+
+		it("should report missing mandatory parameters with their types", () => {
+			expect(validateScriptParameters(info, { Clean: true })).toEqual(['Missing mandatory parameter(s): Configuration [String]']);
+		});
+
+		it("should report unknown parameters and list the declared ones", () => {
+			const problems = validateScriptParameters(info, { Configuration: 'Debug', Target: 'x64' });
+
+			expect(problems).toEqual(["Unknown parameter 'Target' (script parameters: Configuration, Retries, Clean, Publish)"]);
+		});
+
+		it("should require booleans for switches", () => {
+			expect(validateScriptParameters(info, { Configuration: 'Debug', Clean: 'yes' })).toEqual(["Parameter 'Clean' is a switch — pass true or false"]);
+		});
+
+		it("should accept common parameters only with [CmdletBinding()]", () => {
+			expect(validateScriptParameters(info, { Configuration: 'Debug', Verbose: true })).toHaveLength(1);
+			expect(validateScriptParameters({ ...info, cmdletBinding: true }, { Configuration: 'Debug', Verbose: true })).toEqual([]);
+		});
+	});
+
+	describe("Arguments", () => {
+		it("should map values to named arguments with the declared casing", () => {
+			const args = buildScriptArgs(info, { configuration: 'Release Build', retries: 3, clean: true, publish: false });
+
+			expect(args.map(formatScriptArgument)).toEqual(["-Configuration:'Release Build'", "-Retries:'3'", '-Clean', '-Publish:$false']);
+		});
+
+		it("should pass a false switch explicitly", () => {
+			expect(buildScriptArgs(info, { Clean: false })).toEqual([{ name: 'Clean', value: false }]);
+		});
+
+		it("should keep values that look like parameter names as values", () => {
+			const args = buildScriptArgs(info, { Configuration: '-Force' });
+
+			expect(args).toEqual([{ name: 'Configuration', value: '-Force' }]);
+			expect(formatScriptArgument(args[0])).toBe("-Configuration:'-Force'");
+			expect(formatScriptArgument({ name: 'Configuration', value: "it's" })).toBe("-Configuration:'it''s'");
+		});
+	});
+
+	describe("Reading param() blocks", () => {
+		let isPowerShellAvailable = false;
+		let dir: string;
+
+		beforeAll(async () => {
+			dir = mkdtempSync(join(tmpdir(), 'pi-ps-script-'));
+			try {
+				const result = await executePowerShell({ command: "$PSVersionTable.PSVersion.Major", timeout: 5000 });
+				isPowerShellAvailable = result.success;
+			} catch {
+				isPowerShellAvailable = false;
+			}
+		});
+
+		afterAll(() => {
+			rmSync(dir, { recursive: true, force: true });
+		});
+
+		it("should read names, types and mandatory flags without running the script", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			const script = join(dir, 'build script.ps1');
+			writeFileSync(script, [
+				'[CmdletBinding()]',
+				'param(',
+				'    [Parameter(Mandatory)][string]$Configuration,',
+				'    [int]$Retries = 1,',
+				'    [switch]$Clean',
+				')',
+				'throw "should not run"',
+			].join('\n'));
+
+			const result = await executePowerShell({ command: READ_SCRIPT_PARAMS, env: { PI_SCRIPT_PATH: script }, output: { format: 'json', depth: 4 } });
+			const read = result.structured?.items[0] as ScriptInfo;
+
+			expect(read.cmdletBinding).toBe(true);
+			expect(read.errors).toEqual([]);
+			expect(read.parameters).toEqual([
+				{ name: 'Configuration', type: 'String', mandatory: true, isSwitch: false, isArray: false },
+				{ name: 'Retries', type: 'Int32', mandatory: false, isSwitch: false, isArray: false },
+				{ name: 'Clean', type: 'SwitchParameter', mandatory: false, isSwitch: true, isArray: false },
+			]);
+		});
+	});
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for the local session framing protocol
+ */
+
+import { describe, it, expect } from "vitest";
+import { FrameReader, FrameCollector, frameCommand, preludeLine, stopFilePath, SESSION_PRELUDE, type FrameEvent } from "../src/session/framing.js";
+
+const NONCE = "0123456789abcdef";
+
+function record(type: string, data: string, nonce = NONCE): Buffer {
+	const payload = Buffer.from(data, 'utf8');
+	return Buffer.concat([Buffer.from(`\x1ePI ${nonce} ${type} ${payload.length}\n`, 'latin1'), payload, Buffer.from('\n')]);
+}
+
+/** Feed bytes in chunks of `size` and collect every event */
+function readAll(bytes: Buffer, size: number, nonce = NONCE): FrameEvent[] {
+	const reader = new FrameReader(nonce);
+	const events: FrameEvent[] = [];
+	for (let i = 0; i < bytes.length; i += size) {
+		events.push(...reader.push(bytes.subarray(i, i + size)));
+	}
+	return events;
+}
+
+function collect(events: FrameEvent[]): FrameCollector {
+	const collector = new FrameCollector();
+	events.forEach(e => collector.add(e));
+	return collector;
+}
+
+describe("Session Framing", () => {
+	describe("Reader", () => {
+		it("should read records at any chunk size", () => {
+			const bytes = Buffer.concat([
+				record('output', 'first line'),
+				record('output', 'naïve — 日本語 ✓'),
+				record('end', '{"success":true,"exitCode":null,"durationMs":5}'),
+			]);
+			for (const size of [1, 2, 3, 7, 64, bytes.length]) {
+				const events = readAll(bytes, size).filter(e => e.type !== 'raw');
+				expect(events.map(e => e.data), `chunk size ${size}`).toEqual([
+					'first line', 'naïve — 日本語 ✓', '{"success":true,"exitCode":null,"durationMs":5}',
+				]);
+			}
+		});
+
+		it("should keep payloads with newlines, control characters and marker-like text intact", () => {
+			const tricky = "line1\r\nline2\u0000\u0007 \x1ePI fake output 3\nEND ---END-1---:SUCCESS";
+			const events = readAll(record('output', tricky), 5);
+			expect(events).toEqual([{ type: 'output', data: tricky }]);
+		});
+
+		it("should keep unframed output as raw text, reassembling split characters", () => {
+			const bytes = Buffer.concat([Buffer.from('raw 日本\n', 'utf8'), record('output', 'framed'), Buffer.from('tail ✓', 'utf8')]);
+			const events = readAll(bytes, 1);
+			expect(events.filter(e => e.type === 'raw').map(e => e.data).join('')).toBe('raw 日本\ntail ✓');
+			expect(events.find(e => e.type === 'output')?.data).toBe('framed');
+		});
+
+		it("should drop records of another command", () => {
+			const bytes = Buffer.concat([record('end', '{}', 'ffffffffffffffff'), record('output', 'mine')]);
+			expect(readAll(bytes, 4)).toEqual([{ type: 'output', data: 'mine' }]);
+		});
+
+		it("should pass through text that only looks like a marker", () => {
+			const events = readAll(Buffer.from('\x1ePI not a header at all\nok', 'latin1'), 3);
+			expect(events.map(e => e.data).join('')).toBe('\x1ePI not a header at all\nok');
+		});
+	});
+
+	describe("Collector", () => {
+		it("should assemble console-like output and per-stream records", () => {
+			const collector = collect([
+				{ type: 'output', data: 'result' },
+				{ type: 'information', data: 'host text' },
+				{ type: 'warning', data: 'careful' },
+				{ type: 'error', data: 'it broke' },
+				{ type: 'raw', data: '{"json":1}\n' },
+				{ type: 'end', data: '{"success":false,"exitCode":3,"durationMs":120,"location":"C:\\\\work"}' },
+			]);
+			expect(collector.output).toEqual({ stdout: 'result\nhost text\nWARNING: careful\n{"json":1}', stderr: 'it broke' });
+			expect(collector.streams.warning).toEqual(['careful']);
+			expect(collector.end).toEqual({ success: false, exitCode: 3, durationMs: 120, location: 'C:\\work' });
+		});
+
+		it("should treat a malformed end record as failure", () => {
+			expect(collect([{ type: 'end', data: 'garbage' }]).end).toEqual({ success: false, exitCode: null, durationMs: 0 });
+		});
+	});
+
+	describe("Commands", () => {
+		it("should send each command as a single line with its nonce", () => {
+			const line = frameCommand(NONCE, "Write-Output 'a'\nWrite-Output \"b\"");
+			expect(line.endsWith('\n')).toBe(true);
+			expect(line.slice(0, -1)).not.toContain('\n');
+			expect(line).toContain(`__PiEnd '${NONCE}'`);
+			expect(line).toContain(stopFilePath(NONCE));
+		});
+
+		it("should load the prelude in one line", () => {
+			const line = preludeLine(NONCE);
+			expect(line.slice(0, -1)).not.toContain('\n');
+			expect(line).toContain(Buffer.from(SESSION_PRELUDE, 'utf8').toString('base64'));
+		});
+	});
+});
@@ -3,7 +3,11 @@
  */
 
 import { describe, it, expect, beforeAll, afterEach, beforeEach } from "vitest";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import { PowerShellSessionManager } from "../src/session/session-manager.js";
+import { wrapStructured, parseStructured } from "../src/tools/structured-output.js";
 
 describe("PowerShell Session Manager", () => {
 	let sessionManager: PowerShellSessionManager;
@@ -195,6 +199,37 @@ describe("PowerShell Session Manager", () => {
 		}, 20000);
 	});
 
+	describe("Framing", () => {
+		it("should separate streams and report exit codes", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-framing');
+
+			const result = await sessionManager.executeInSession('test-framing', `
+				Write-Output "---END-1---:SUCCESS"
+				Write-Output "naïve 日本語"
+				Write-Warning "careful"
+				Write-Host "host text"
+				Write-Error "broke"
+				pwsh -NoProfile -Command "exit 3"
+			`);
+			expect(result.stdout).toContain('---END-1---:SUCCESS');
+			expect(result.stdout).toContain('naïve 日本語');
+			expect(result.stdout).toContain('host text');
+			expect(result.streams?.warning).toEqual(['careful']);
+			expect(result.streams?.error.join('\n')).toContain('broke');
+			expect(result.exitCode).toBe(3);
+			expect(result.success).toBe(false);
+			expect(result.durationMs).toBeGreaterThanOrEqual(0);
+
+			const next = await sessionManager.executeInSession('test-framing', 'Write-Output ok');
+			expect(next).toMatchObject({ stdout: 'ok', stderr: '', success: true, exitCode: null });
+		}, 30000);
+	});
+
 	describe("Error Handling", () => {
 		it("should handle duplicate session names", async () => {
 			if (!isPowerShellAvailable) {
@@ -224,17 +259,207 @@ describe("PowerShell Session Manager", () => {
 
 			await sessionManager.createSession('test-timeout');
 			
-			const promise = sessionManager.executeInSession('test-timeout', 'Start-Sleep -Seconds 3', 1000);
-			await expect(promise).rejects.toThrow(/timed out/);
+			const result = await sessionManager.executeInSession('test-timeout', 'Write-Output "partial"; Start-Sleep -Seconds 3', 1000);
+			expect(result).toMatchObject({ timedOut: true, success: false, stdout: 'partial' });
+			expect(result.stderr).toMatch(/timed out after 1000ms/);
 		}, 15000);
 	});
 
+	describe("Cancellation", () => {
+		it("should cancel a running command without losing session state", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-cancel');
+			await sessionManager.executeInSession('test-cancel', '$keep = 7');
+
+			const controller = new AbortController();
+			setTimeout(() => controller.abort(), 500);
+			const result = await sessionManager.executeInSession('test-cancel', 'pwsh -NoProfile -Command "Start-Sleep -Seconds 20"', 30000, controller.signal);
+
+			expect(result.cancelled).toBe(true);
+			expect(result.success).toBe(false);
+			expect(sessionManager.getSession('test-cancel')).toBeDefined();
+		}, 30000);
+
+		it("should stop a PowerShell loop inside the session and keep its state", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-stop-loop');
+			await sessionManager.executeInSession('test-stop-loop', '$keep = 7');
+
+			const controller = new AbortController();
+			setTimeout(() => controller.abort(), 500);
+			const result = await sessionManager.executeInSession('test-stop-loop', 'while ($true) { Start-Sleep -Milliseconds 100 }', 30000, controller.signal);
+
+			expect(result).toMatchObject({ cancelled: true, success: false });
+			expect(result.recycled).toBeUndefined();
+			const after = await sessionManager.executeInSession('test-stop-loop', 'Write-Output "keep=$keep"');
+			expect(after.stdout).toBe('keep=7');
+		}, 30000);
+
+		it("should recycle the session when a command ignores the interrupt", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-recycle');
+			await sessionManager.executeInSession('test-recycle', '$keep = 7');
+
+			const controller = new AbortController();
+			setTimeout(() => controller.abort(), 500);
+			// A blocking .NET call can't be stopped by PowerShell
+			const result = await sessionManager.executeInSession('test-recycle', '[System.Threading.Thread]::Sleep(20000)', 30000, controller.signal);
+
+			expect(result).toMatchObject({ cancelled: true, recycled: true, success: false });
+			expect(result.stderr).toMatch(/was restarted/);
+			const after = await sessionManager.executeInSession('test-recycle', 'Write-Output "keep=$keep"');
+			expect(after.stdout).toBe('keep=');
+		}, 30000);
+
+		it("should stop a running command when its session is closed", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-close-running');
+			const running = sessionManager.executeInSession('test-close-running', 'pwsh -NoProfile -Command "Start-Sleep -Seconds 20"', 30000);
+			await new Promise(resolve => setTimeout(resolve, 500));
+
+			const started = Date.now();
+			await sessionManager.closeSession('test-close-running');
+
+			expect(Date.now() - started).toBeLessThan(10000);
+			expect(await running).toMatchObject({ cancelled: true, success: false });
+			expect(sessionManager.getSession('test-close-running')).toBeUndefined();
+		}, 30000);
+	});
+
+	describe("Queue", () => {
+		it("should run concurrent commands one at a time, in order", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-queue');
+			const positions: number[] = [];
+			const [first, second] = await Promise.all([
+				sessionManager.executeInSession('test-queue', 'Start-Sleep -Milliseconds 500; $order = "first"; Write-Output one'),
+				sessionManager.executeInSession('test-queue', 'Write-Output "two after $order"', 30000, undefined, ahead => positions.push(ahead)),
+			]);
+
+			expect(first.stdout).toBe('one');
+			expect(second.stdout).toBe('two after first');
+			expect(positions).toEqual([1]);
+		}, 20000);
+
+		it("should drop a cancelled command that is still waiting", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-queue-cancel');
+			const controller = new AbortController();
+			const third: number[] = [];
+			const running = sessionManager.executeInSession('test-queue-cancel', 'Start-Sleep -Milliseconds 800; $ran = @()');
+			const dropped = sessionManager.executeInSession('test-queue-cancel', '$ran += "dropped"', 30000, controller.signal);
+			const last = sessionManager.executeInSession('test-queue-cancel', '$ran += "last"; $ran -join ","', 30000, undefined, ahead => third.push(ahead));
+			controller.abort();
+
+			expect(await dropped).toMatchObject({ cancelled: true, success: false });
+			expect((await running).success).toBe(true);
+			expect((await last).stdout).toBe('last');
+			expect(third).toEqual([2, 1]);
+		}, 20000);
+	});
+
+	describe("Health", () => {
+		it("should report a live session as connected, with its latency", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-health');
+			const health = await sessionManager.checkSession('test-health');
+
+			expect(health.state).toBe('Connected');
+			expect(health.latencyMs).toBeGreaterThanOrEqual(0);
+			expect(sessionManager.getSession('test-health')?.lastChecked).toEqual(health.checkedAt);
+		}, 15000);
+
+		it("should report a dead host and restart it on reconnect", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-health-dead');
+			const disconnected: string[] = [];
+			sessionManager.on('sessionDisconnected', info => disconnected.push(info.name));
+			await sessionManager.executeInSession('test-health-dead', '[Environment]::Exit(1)', 5000).catch(() => undefined);
+
+			const dead = await sessionManager.checkSession('test-health-dead');
+			expect(dead.state).toBe('Disconnected');
+			expect(disconnected).toEqual(['test-health-dead']);
+
+			const restored = await sessionManager.checkSession('test-health-dead', { reconnect: true });
+			expect(restored).toMatchObject({ state: 'Connected', reconnected: true, stateLost: true });
+			expect((await sessionManager.executeInSession('test-health-dead', 'Write-Output ok')).stdout).toBe('ok');
+		}, 30000);
+
+		it("should count commands and track the location", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-inspect');
+			const home = (await sessionManager.executeInSession('test-inspect', 'Set-Location ([System.IO.Path]::GetTempPath()); "$PWD"')).stdout;
+			await sessionManager.checkSession('test-inspect');
+
+			expect(sessionManager.getSession('test-inspect')).toMatchObject({ commandCount: 1, location: home });
+		}, 15000);
+
+		it("should not open a remote connection just to check it", async () => {
+			await sessionManager.createSession('test-health-remote', { computerName: 'nonexistent.invalid' });
+			const health = await sessionManager.checkSession('test-health-remote');
+
+			expect(health.state).toBe('Connecting');
+			expect(health.latencyMs).toBeUndefined();
+		});
+	});
+
+	describe("Idle Timeout", () => {
+		afterEach(() => sessionManager.configureIdleTimeout(0));
+
+		it("should close a session nobody used, and say so when it is used again", async () => {
+			await sessionManager.createSession('test-idle', { computerName: 'nonexistent.invalid' });
+			const expired = new Promise<number>(resolve => sessionManager.once('sessionExpired', (_info, idleMs: number) => resolve(idleMs)));
+			sessionManager.configureIdleTimeout(200);
+
+			expect(await expired).toBeGreaterThanOrEqual(200);
+			expect(sessionManager.getSession('test-idle')).toBeUndefined();
+			await expect(sessionManager.executeInSession('test-idle', 'Get-Date')).rejects.toThrow(/was closed after .* unused/);
+		});
+	});
+
 	describe("Remote Session Options", () => {
 		it("should create remote session configuration (without actually connecting)", async () => {
 			// This test verifies the session creation without actually connecting to a remote machine
 			const sessionInfo = await sessionManager.createSession('test-remote', {
 				computerName: 'remote-server.example.com',
 				credential: 'domain\\user',
+				credentialSource: { type: 'env', passwordVariable: 'REMOTE_PASSWORD' },
 				authentication: 'Kerberos',
 				port: 5986,
 				useSSL: true
@@ -244,11 +469,162 @@ describe("PowerShell Session Manager", () => {
 			expect(sessionInfo.name).toBe('test-remote');
 			expect(sessionInfo.isLocal).toBe(false);
 			expect(sessionInfo.computerName).toBe('remote-server.example.com');
+			expect(sessionInfo.state).toBe('Connecting');
 			expect(sessionInfo.options?.credential).toBe('domain\\user');
 			expect(sessionInfo.options?.authentication).toBe('Kerberos');
 			expect(sessionInfo.options?.port).toBe(5986);
 			expect(sessionInfo.options?.useSSL).toBe(true);
 		});
+
+		it("should check options against the transport", async () => {
+			await expect(sessionManager.createSession('test-ssh-winrm', { hostName: 'build01', credential: 'ci', useSSL: true }))
+				.rejects.toThrow(/credential, useSSL only apply to WinRM/);
+			await expect(sessionManager.createSession('test-ssh-host', { transport: 'ssh', computerName: 'build01' }))
+				.rejects.toThrow(/needs a hostName/);
+			await expect(sessionManager.createSession('test-winrm-key', { computerName: 'web01', keyFilePath: '/k' }))
+				.rejects.toThrow(/keyFilePath only apply to SSH/);
+		});
+
+		it("should refuse a user name without a way to get the password", async () => {
+			await expect(sessionManager.createSession('test-no-source', { computerName: 'server', credential: 'domain\\user' }))
+				.rejects.toThrow(/credentialSource/);
+			await expect(sessionManager.createSession('test-no-password', { computerName: 'server', credential: 'domain\\user', credentialSource: { type: 'prompt' } }))
+				.rejects.toThrow(/none was given/);
+			expect(sessionManager.getSession('test-no-source')).toBeUndefined();
+		});
+
+		it("should report a failed connection on first use and keep the session", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-remote-fail', { computerName: 'unreachable.invalid', timeout: 5000 });
+			const result = await sessionManager.executeInSession('test-remote-fail', 'Write-Output "never"', 60000);
+
+			expect(result.success).toBe(false);
+			expect(result.stdout).not.toContain('never');
+			expect(result.stderr).not.toBe('');
+			expect(sessionManager.getSession('test-remote-fail')).toMatchObject({ state: 'Connecting' });
+		}, 90000);
+	});
+
+	describe("Structured Output", () => {
+		const MARKER = '__PI_STRUCTURED_session__';
+
+		it("should keep variables and functions from a structured command", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-structured');
+			const first = await sessionManager.executeInSession('test-structured', wrapStructured('$x = 1; function Get-Double($n) { $n * 2 }; [pscustomobject]@{ A = $x }', MARKER));
+			expect(parseStructured(first.stdout, MARKER)?.items).toEqual([{ A: 1 }]);
+
+			const second = await sessionManager.executeInSession('test-structured', wrapStructured('Get-Double ($x + 1)', MARKER));
+			expect(parseStructured(second.stdout, MARKER)?.items).toEqual([4]);
+
+			const failed = await sessionManager.executeInSession('test-structured', wrapStructured("Get-Item -LiteralPath './does-not-exist.txt'", MARKER));
+			expect(parseStructured(failed.stdout, MARKER)?.status).toEqual({ success: false, exitCode: null });
+		}, 20000);
+
+		it("should return structured output from a remote session", async () => {
+			const sshHost = process.env.PI_TEST_SSH_HOST;
+			if (!isPowerShellAvailable || !sshHost) {
+				console.log("Skipping test: PowerShell or PI_TEST_SSH_HOST not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-structured-ssh', {
+				hostName: sshHost,
+				keyFilePath: process.env.PI_TEST_SSH_KEY,
+				port: process.env.PI_TEST_SSH_PORT ? Number(process.env.PI_TEST_SSH_PORT) : undefined,
+			});
+			await sessionManager.executeInSession('test-structured-ssh', wrapStructured('$y = 20', MARKER));
+			const result = await sessionManager.executeInSession('test-structured-ssh', wrapStructured('[pscustomobject]@{ Y = $y + 1 }', MARKER));
+
+			expect(parseStructured(result.stdout, MARKER)).toMatchObject({ items: [{ Y: 21 }], totalItems: 1 });
+		}, 60000);
+	});
+
+	// Needs an sshd with the PowerShell subsystem, e.g. in sshd_config:
+	//   Subsystem powershell /usr/bin/pwsh -sshs -NoLogo
+	// PI_TEST_SSH_HOST=user@localhost, plus PI_TEST_SSH_KEY / PI_TEST_SSH_PORT when needed
+	describe("SSH Transport", () => {
+		const sshHost = process.env.PI_TEST_SSH_HOST;
+
+		it("should keep remote state between commands over SSH", async () => {
+			if (!isPowerShellAvailable || !sshHost) {
+				console.log("Skipping test: PowerShell or PI_TEST_SSH_HOST not available");
+				return;
+			}
+
+			const info = await sessionManager.createSession('test-ssh', {
+				hostName: sshHost,
+				keyFilePath: process.env.PI_TEST_SSH_KEY,
+				port: process.env.PI_TEST_SSH_PORT ? Number(process.env.PI_TEST_SSH_PORT) : undefined,
+			});
+			expect(info).toMatchObject({ isLocal: false, transport: 'ssh' });
+
+			const first = await sessionManager.executeInSession('test-ssh', '$answer = 41; $PID');
+			expect(first.stderr).toBe('');
+			const second = await sessionManager.executeInSession('test-ssh', '$answer + 1; $PID');
+			expect(second.stdout.split(/\r?\n/)).toEqual(['42', first.stdout]);
+		}, 60000);
+	});
+
+	describe("File Transfer", () => {
+		const sshHost = process.env.PI_TEST_SSH_HOST;
+
+		it("should refuse to copy through a local session", async () => {
+			if (!isPowerShellAvailable) {
+				console.log("Skipping test: PowerShell not available");
+				return;
+			}
+
+			await sessionManager.createSession('test-copy-local');
+			await expect(sessionManager.transferFiles('test-copy-local', { direction: 'to', source: 'a', destination: 'b' })).rejects.toThrow(/is local/);
+		}, 15000);
+
+		it("should copy a directory to the target and back, with checksums", async () => {
+			if (!isPowerShellAvailable || !sshHost) {
+				console.log("Skipping test: PowerShell or PI_TEST_SSH_HOST not available");
+				return;
+			}
+
+			const local = mkdtempSync(join(tmpdir(), 'pi-copy-'));
+			mkdirSync(join(local, 'src', 'nested'), { recursive: true });
+			writeFileSync(join(local, 'src', 'a.txt'), 'alpha');
+			writeFileSync(join(local, 'src', 'nested', 'b.txt'), 'beta');
+			try {
+				await sessionManager.createSession('test-copy', {
+					hostName: sshHost,
+					keyFilePath: process.env.PI_TEST_SSH_KEY,
+					port: process.env.PI_TEST_SSH_PORT ? Number(process.env.PI_TEST_SSH_PORT) : undefined,
+				});
+				const remote = (await sessionManager.executeInSession('test-copy', 'Join-Path ([System.IO.Path]::GetTempPath()) "pi-copy-$PID"')).stdout;
+				const progress: number[] = [];
+
+				const up = await sessionManager.transferFiles('test-copy', { direction: 'to', source: join(local, 'src'), destination: remote, recursive: true, verify: true }, {
+					onProgress: p => progress.push(p.index),
+				});
+				expect(up.summary).toMatchObject({ copied: ['a.txt', 'nested/b.txt'], verified: true, mismatched: [] });
+				expect(progress).toEqual([1, 2]);
+
+				const again = await sessionManager.transferFiles('test-copy', { direction: 'to', source: join(local, 'src'), destination: remote, recursive: true, overwrite: 'fail' });
+				expect(again.success).toBe(false);
+				expect(again.stderr).toMatch(/2 file\(s\) already exist/);
+
+				const down = await sessionManager.transferFiles('test-copy', { direction: 'from', source: remote, destination: join(local, 'back'), recursive: true, verify: true });
+				expect(down.summary?.verified).toBe(true);
+				expect(readFileSync(join(local, 'back', 'nested', 'b.txt'), 'utf8')).toBe('beta');
+
+				await sessionManager.executeInSession('test-copy', `Remove-Item -Recurse -Force '${remote}'`);
+			} finally {
+				rmSync(local, { recursive: true, force: true });
+			}
+		}, 90000);
 	});
 
 	describe("Session Lifecycle Events", () => {
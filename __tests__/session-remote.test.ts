@@ -0,0 +1,62 @@
+/**
+ * Tests for the scripts behind remote sessions
+ */
+
+import { describe, it, expect } from "vitest";
+import { remoteSetupScript, remoteCommand, remoteProbe } from "../src/session/remote.js";
+
+describe("Remote Session Scripts", () => {
+	it("should open the PSSession with the session's options", () => {
+		const script = remoteSetupScript('web01', 'web01.corp.local', {
+			credential: "CORP\\o'brien", credentialSource: { type: 'env', passwordVariable: 'WEB01_PASSWORD' },
+			authentication: 'Kerberos', port: 5986, useSSL: true, timeout: 15000,
+		});
+		expect(script).toContain("Name = 'web01'");
+		expect(script).toContain("ComputerName = 'web01.corp.local'");
+		expect(script).toContain("$__piUser = 'CORP\\o''brien'");
+		expect(script).toContain("Credential = $global:__PiCredential");
+		expect(script).toContain("Authentication = 'Kerberos'");
+		expect(script).toContain("Port = 5986");
+		expect(script).toContain("UseSSL = $true");
+		expect(script).toContain("New-PSSessionOption -OpenTimeout 15000");
+	});
+
+	it("should connect over SSH with -HostName", () => {
+		const script = remoteSetupScript('agent', 'build01.corp.local', {
+			hostName: 'build01.corp.local', userName: 'ci', keyFilePath: '/home/ci/.ssh/id_ed25519', subsystem: 'pwsh', port: 2222,
+		}, 'ssh');
+		expect(script).toContain("HostName = 'build01.corp.local'");
+		expect(script).toContain("UserName = 'ci'");
+		expect(script).toContain("KeyFilePath = '/home/ci/.ssh/id_ed25519'");
+		expect(script).toContain("Subsystem = 'pwsh'");
+		expect(script).toContain("Port = 2222");
+		expect(script).not.toMatch(/ComputerName|Credential|SessionOption/);
+	});
+
+	it("should leave out options that weren't given", () => {
+		const script = remoteSetupScript('db', 'db01');
+		expect(script).not.toMatch(/Credential|Authentication|Port|UseSSL|SessionOption/);
+	});
+
+	it("should reconnect a disconnected PSSession before replacing it", () => {
+		const script = remoteSetupScript('db', 'db01');
+		expect(script.indexOf('Connect-PSSession')).toBeLessThan(script.indexOf('New-PSSession @params'));
+		expect(script).toContain("re-established");
+	});
+
+	it("should open the PSSession before every command and send the command intact", () => {
+		const command = "$x = 'it''s'\nGet-Service | Where-Object { $_.Status -eq \"Running\" }";
+		const script = remoteCommand(command);
+		expect(script.split('\n')[0]).toBe('__PiRemoteOpen');
+		const encoded = /FromBase64String\('([^']+)'\)/.exec(script)![1];
+		expect(Buffer.from(encoded, 'base64').toString('utf8')).toBe(command);
+	});
+
+	it("should probe without opening or repairing the PSSession, and give up after the timeout", () => {
+		const script = remoteProbe(2.5);
+		expect(script).not.toMatch(/__PiRemoteOpen|New-PSSession|Connect-PSSession/);
+		expect(script).toContain('Wait-Job -Job $job -Timeout 3');
+		expect(script).toContain("'Unresponsive'");
+		expect(script).toContain('Receive-Job');
+	});
+});
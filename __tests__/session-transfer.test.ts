@@ -0,0 +1,66 @@
+/**
+ * Tests for file copies through remote sessions
+ */
+
+import { describe, it, expect } from "vitest";
+import { transferScript, parseTransferLine } from "../src/session/transfer.js";
+
+describe("Session Transfer", () => {
+	describe("Scripts", () => {
+		it("should copy local files to the session", () => {
+			const script = transferScript({ direction: 'to', source: 'C:\\deploy\\app.config', destination: 'C:\\inetpub\\app\\' });
+			expect(script.split('\n')[0]).toBe('__PiRemoteOpen');
+			expect(script).toContain('$sourceRemote = $false');
+			expect(script).toContain('-ToSession $session');
+			expect(script).toContain("'C:\\deploy\\app.config'");
+		});
+
+		it("should copy remote files back, quoting paths", () => {
+			const script = transferScript({ direction: 'from', source: "/var/log/o'brien", destination: '/tmp/logs', recursive: true });
+			expect(script).toContain('$sourceRemote = $true');
+			expect(script).toContain('-FromSession $session');
+			expect(script).toContain("'/var/log/o''brien', $true");
+		});
+
+		it("should default to overwriting without verification", () => {
+			const script = transferScript({ direction: 'to', source: 'a', destination: 'b' });
+			expect(script).toContain("$policy = 'overwrite'");
+			expect(script).toContain('$verify = $false');
+		});
+
+		it("should check for existing files before copying anything", () => {
+			const script = transferScript({ direction: 'to', source: 'a', destination: 'b', overwrite: 'fail', verify: true });
+			expect(script).toContain("$policy = 'fail'");
+			expect(script).toContain('$verify = $true');
+			expect(script.indexOf('Nothing was copied')).toBeLessThan(script.indexOf('-ToSession'));
+		});
+
+		it("should not leave its helpers in the host's global scope", () => {
+			const script = transferScript({ direction: 'to', source: 'a', destination: 'b' });
+			expect(script.split('\n')[1]).toBe('& {');
+			expect(script.trimEnd().endsWith('}')).toBe(true);
+		});
+	});
+
+	describe("Output", () => {
+		it("should read progress lines", () => {
+			expect(parseTransferLine('{"type":"progress","file":"logs/a.log","index":2,"total":5,"copiedBytes":2048,"totalBytes":10240}')).toEqual({
+				type: 'progress',
+				progress: { file: 'logs/a.log', index: 2, total: 5, copiedBytes: 2048, totalBytes: 10240 },
+			});
+		});
+
+		it("should read the result", () => {
+			expect(parseTransferLine('{"type":"result","copied":["a.txt"],"skipped":[],"bytes":12,"verified":false,"mismatched":["a.txt"]}')).toEqual({
+				type: 'result',
+				summary: { copied: ['a.txt'], skipped: [], bytes: 12, verified: false, mismatched: ['a.txt'] },
+			});
+		});
+
+		it("should ignore other output", () => {
+			expect(parseTransferLine('WARNING: Connection to web01 was lost')).toBeUndefined();
+			expect(parseTransferLine('{"json": true}')).toBeUndefined();
+			expect(parseTransferLine('{not json')).toBeUndefined();
+		});
+	});
+});
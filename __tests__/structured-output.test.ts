@@ -0,0 +1,97 @@
+/**
+ * Tests for structured (JSON/CSV) output parsing and formatting
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseStructured, capItems, formatTable, toCsv, formatStructured, wrapStructured } from "../src/tools/structured-output.js";
+
+const MARKER = '__PI_STRUCTURED_test__';
+
+describe("Structured Output", () => {
+	describe("Parsing", () => {
+		it("should split host output from the JSON after the marker", () => {
+			const out = parseStructured(`Building...\nDone\n${MARKER}\n[{"a":1},{"a":2}]\n`, MARKER);
+
+			expect(out).toEqual({ items: [{ a: 1 }, { a: 2 }], totalItems: 2, truncated: false, hostOutput: 'Building...\nDone' });
+		});
+
+		it("should read the command's status from the marker line", () => {
+			const out = parseStructured(`${MARKER}{"success":false,"exitCode":3}\n[1]`, MARKER);
+
+			expect(out).toMatchObject({ items: [1], status: { success: false, exitCode: 3 } });
+			expect(parseStructured(`${MARKER}{"success":true,"exitCode":null}\n[]`, MARKER)?.status).toEqual({ success: true, exitCode: null });
+		});
+
+		it("should return null when the marker is missing", () => {
+			expect(parseStructured('error before serialization', MARKER)).toBeNull();
+		});
+
+		it("should return null for malformed JSON", () => {
+			expect(parseStructured(`${MARKER}\n[{"a":`, MARKER)).toBeNull();
+		});
+
+		it("should wrap a non-array value", () => {
+			expect(parseStructured(`${MARKER}\n{"a":1}`, MARKER)?.items).toEqual([{ a: 1 }]);
+		});
+
+		it("should cap the number of items", () => {
+			const json = JSON.stringify(Array.from({ length: 50 }, (_, i) => i));
+			const out = parseStructured(`${MARKER}\n${json}`, MARKER, 5);
+
+			expect(out?.items).toEqual([0, 1, 2, 3, 4]);
+			expect(out?.totalItems).toBe(50);
+			expect(out?.truncated).toBe(true);
+		});
+
+		it("should drop whole items that exceed the byte budget", () => {
+			const items = [{ s: 'x'.repeat(40) }, { s: 'y'.repeat(40) }, { s: 'z'.repeat(40) }];
+
+			expect(capItems(items, 100, 100)).toEqual([items[0], items[1]]);
+			expect(capItems(items, 100, 10)).toEqual([items[0]]);  // always keep at least one
+		});
+	});
+
+	describe("Wrapping", () => {
+		it("should emit the marker and an array with the requested depth", () => {
+			const script = wrapStructured('Get-Process', MARKER, 5);
+
+			expect(script).toContain('@(. {\nGet-Process\n$__piOk = $?; $__piCode = $LASTEXITCODE\n})');
+			expect(script).not.toContain('[Console]::Out');
+			expect(script).toContain(`'${MARKER}'`);
+			expect(script).toContain('-Depth 5 -Compress');
+		});
+	});
+
+	describe("Formatting", () => {
+		it("should render a table with the union of properties", () => {
+			const table = formatTable([{ Name: 'pwsh', Id: 42 }, { Name: 'node', Id: 7, CPU: 1.5 }]);
+
+			expect(table.split('\n')).toEqual([
+				'Name  Id  CPU',
+				'----  --  ---',
+				'pwsh  42',
+				'node  7   1.5',
+			]);
+		});
+
+		it("should render scalars in a Value column", () => {
+			expect(formatTable(['a', 'b'])).toBe('Value\n-----\na\nb');
+		});
+
+		it("should render an empty result", () => {
+			expect(formatTable([])).toBe('(no items)');
+		});
+
+		it("should quote CSV cells that need it", () => {
+			const csv = toCsv([{ Name: 'a,b', Note: 'say "hi"' }, { Name: 'plain' }]);
+
+			expect(csv).toBe('Name,Note\n"a,b","say ""hi"""\nplain,');
+		});
+
+		it("should note truncation and include host output", () => {
+			const text = formatStructured({ items: [{ a: 1 }], totalItems: 10, truncated: true, hostOutput: 'note' }, 'json');
+
+			expect(text).toBe('note\n\na\n-\n1\n\n[10 item(s), kept first 1 in details]');
+		});
+	});
+});
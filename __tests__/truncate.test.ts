@@ -0,0 +1,55 @@
+/**
+ * Tests for head + tail output truncation
+ */
+
+import { describe, it, expect } from "vitest";
+import { readFileSync, rmSync } from "fs";
+import { truncateOutput, exceedsLimits, saveFullOutput } from "../src/tools/truncate.js";
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n');
+
+describe("Output Truncation", () => {
+	it("should return short output unchanged", () => {
+		expect(truncateOutput('a\nb')).toBe('a\nb');
+		expect(truncateOutput('')).toBe('(no output)');
+	});
+
+	it("should keep the head and the tail when over the line limit", () => {
+		const out = truncateOutput(numbered(100), { maxLines: 10 }).split('\n');
+
+		expect(out.slice(0, 5)).toEqual(['line 1', 'line 2', 'line 3', 'line 4', 'line 5']);
+		expect(out[5]).toBe('... [90 line(s) truncated] ...');
+		expect(out.slice(6)).toEqual(['line 96', 'line 97', 'line 98', 'line 99', 'line 100']);
+	});
+
+	it("should respect the byte limit", () => {
+		const text = numbered(5000);
+		const out = truncateOutput(text, { maxBytes: 1024 });
+
+		expect(exceedsLimits(text, { maxBytes: 1024 })).toBe(true);
+		expect(Buffer.byteLength(out, 'utf8')).toBeLessThan(1024 + 100);
+		expect(out.startsWith('line 1\n')).toBe(true);
+		expect(out.endsWith('line 5000')).toBe(true);
+	});
+
+	it("should clip a single huge line on a character boundary", () => {
+		const out = truncateOutput('€'.repeat(1000), { maxBytes: 300 });
+
+		expect(out).not.toContain('�');
+		expect(out).toContain('[Output truncated]');
+	});
+
+	it("should point to the full output file", () => {
+		expect(truncateOutput(numbered(10), { maxLines: 4 }, '/tmp/out.log')).toContain('truncated — full output: /tmp/out.log');
+	});
+
+	it("should save stdout and stderr untruncated", () => {
+		const file = saveFullOutput(numbered(3), 'boom');
+		try {
+			expect(file).toBeDefined();
+			expect(readFileSync(file!, 'utf8')).toBe('line 1\nline 2\nline 3\n--- stderr ---\nboom\n');
+		} finally {
+			if (file) rmSync(file, { force: true });
+		}
+	});
+});
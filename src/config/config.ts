@@ -0,0 +1,242 @@
+/**
+ * Extension configuration — `.pi/powershell.json` in the project, merged over
+ * `~/.pi/agent/powershell.json` for the user, merged over built-in defaults.
+ *
+ * Files are validated against ConfigSchema when the extension activates. An invalid
+ * file is ignored as a whole and its problems are reported once, so a typo never
+ * makes tool calls fail later. A project file can't choose the PowerShell executable
+ * or weaken the command guard — a cloned repository would otherwise do it unnoticed —
+ * so those settings are dropped from it, with a notice.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { homedir, tmpdir } from "os";
+import { isAbsolute, join, resolve } from "path";
+import { Type, type Static } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { GuardRuleSchema, type GuardRule } from "../guard/command-guard.js";
+import { CredentialSourceSchema } from "../session/credentials.js";
+
+const Edition = Type.Union([Type.Literal("core"), Type.Literal("desktop")]);
+
+const SessionDefinition = Type.Object({
+	transport: Type.Optional(Type.Union([Type.Literal("wsman"), Type.Literal("ssh")])),
+	computerName: Type.Optional(Type.String()),
+	credential: Type.Optional(Type.String()),
+	credentialSource: Type.Optional(CredentialSourceSchema),
+	authentication: Type.Optional(Type.Union([
+		Type.Literal("Default"), Type.Literal("Kerberos"), Type.Literal("Certificate"), Type.Literal("Basic"), Type.Literal("Negotiate"),
+	])),
+	port: Type.Optional(Type.Integer({ minimum: 1, maximum: 65535 })),
+	useSSL: Type.Optional(Type.Boolean()),
+	/** Connection timeout in seconds */
+	timeout: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+	edition: Type.Optional(Edition),
+	hostName: Type.Optional(Type.String({ minLength: 1 })),
+	userName: Type.Optional(Type.String({ minLength: 1 })),
+	keyFilePath: Type.Optional(Type.String({ minLength: 1 })),
+	subsystem: Type.Optional(Type.String({ minLength: 1 })),
+	tags: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+}, { additionalProperties: false });
+
+export const ConfigSchema = Type.Object({
+	/** Default powershell tool timeout in seconds */
+	timeout: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+	output: Type.Optional(Type.Object({
+		maxLines: Type.Optional(Type.Integer({ minimum: 2 })),
+		maxBytes: Type.Optional(Type.Integer({ minimum: 256 })),
+		/** Where full output of truncated commands is saved */
+		dir: Type.Optional(Type.String({ minLength: 1 })),
+	}, { additionalProperties: false })),
+	/** Force UTF-8 console output encoding in every command */
+	utf8: Type.Optional(Type.Boolean()),
+	host: Type.Optional(Type.Object({
+		path: Type.Optional(Type.String({ minLength: 1 })),
+		edition: Type.Optional(Edition),
+	}, { additionalProperties: false })),
+	jobs: Type.Optional(Type.Object({
+		/** Where default stdout/stderr logs and status files go */
+		logDir: Type.Optional(Type.String({ minLength: 1 })),
+		/** Environment variables set for every background job */
+		env: Type.Optional(Type.Record(Type.String({ pattern: '^[^=\\u0000]+$' }), Type.String())),
+		/** Seconds for status queries (PID checks, cleanup) */
+		queryTimeout: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+		/** Seconds to wait for Start-Process to launch a job */
+		startTimeout: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+	}, { additionalProperties: false })),
+	/** Named session definitions: pwsh-create-session defaults, created on first use */
+	sessions: Type.Optional(Type.Record(Type.String({ minLength: 1 }), SessionDefinition)),
+	/** Health checks of idle sessions */
+	heartbeat: Type.Optional(Type.Object({
+		/** Seconds between checks; 0 turns them off */
+		interval: Type.Optional(Type.Number({ minimum: 0 })),
+		/** Reconnect sessions found disconnected */
+		autoReconnect: Type.Optional(Type.Boolean()),
+		maxAttempts: Type.Optional(Type.Integer({ minimum: 1 })),
+		/** Seconds before the first reconnect attempt; doubles after each failed one */
+		backoff: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+	}, { additionalProperties: false })),
+	/** Seconds a session may go unused before it is closed; 0 keeps sessions open */
+	sessionIdleTimeout: Type.Optional(Type.Number({ minimum: 0 })),
+	/** Destructive-command guard for the powershell tool */
+	guard: Type.Optional(Type.Object({
+		enabled: Type.Optional(Type.Boolean()),
+		/** Checked before the built-in rules; first match wins */
+		rules: Type.Optional(Type.Array(GuardRuleSchema)),
+	}, { additionalProperties: false })),
+}, { additionalProperties: false });
+
+export type PowerShellConfig = Static<typeof ConfigSchema>;
+export type SessionDefinition = Static<typeof SessionDefinition>;
+
+export interface ResolvedConfig {
+	timeout: number;
+	output: { maxLines: number; maxBytes: number; dir: string };
+	utf8: boolean;
+	host: { path?: string; edition?: 'core' | 'desktop' };
+	jobs: { logDir: string; env: Record<string, string>; queryTimeout: number; startTimeout: number };
+	sessions: Record<string, SessionDefinition>;
+	heartbeat: { interval: number; autoReconnect: boolean; maxAttempts: number; backoff: number };
+	sessionIdleTimeout: number;
+	guard: { enabled: boolean; rules: GuardRule[] };
+}
+
+export function defaultConfig(): ResolvedConfig {
+	return {
+		timeout: 30,
+		output: { maxLines: 2000, maxBytes: 50 * 1024, dir: tmpdir() },
+		utf8: true,
+		host: {},
+		jobs: { logDir: tmpdir(), env: {}, queryTimeout: 5, startTimeout: 10 },
+		sessions: {},
+		heartbeat: { interval: 60, autoReconnect: false, maxAttempts: 5, backoff: 2 },
+		sessionIdleTimeout: 1800,
+		guard: { enabled: true, rules: [] },
+	};
+}
+
+let current = defaultConfig();
+
+/** The active configuration (defaults until loadConfig runs) */
+export function getConfig(): ResolvedConfig {
+	return current;
+}
+
+export function setConfig(config: ResolvedConfig): void {
+	current = config;
+}
+
+export function getConfigPaths(projectDir: string, homeDir = homedir()): { user: string; project: string } {
+	return {
+		user: join(homeDir, '.pi', 'agent', 'powershell.json'),
+		project: join(projectDir, '.pi', 'powershell.json'),
+	};
+}
+
+/** Parse and validate one file. Missing files are fine; problems come back as messages. */
+export function readConfigFile(file: string): { config?: PowerShellConfig; errors: string[] } {
+	if (!existsSync(file)) return { errors: [] };
+	let data: unknown;
+	try {
+		data = JSON.parse(readFileSync(file, 'utf8').replace(/^\uFEFF/, ''));
+	} catch (error) {
+		return { errors: [`${file}: invalid JSON — ${error instanceof Error ? error.message : String(error)}`] };
+	}
+	const errors = [...Value.Errors(ConfigSchema, data)].map(e => `${file}: ${e.path || '/'} ${e.message}`);
+	if (errors.length > 0) return { errors };
+
+	const config = data as PowerShellConfig;
+	(config.guard?.rules ?? []).forEach((rule, i) => {
+		if (!rule.argumentPattern) return;
+		try {
+			new RegExp(rule.argumentPattern);
+		} catch (error) {
+			errors.push(`${file}: /guard/rules/${i}/argumentPattern ${error instanceof Error ? error.message : String(error)}`);
+		}
+	});
+	return errors.length > 0 ? { errors } : { config, errors: [] };
+}
+
+/** Later layers win; nested objects merge key by key, session definitions per session */
+export function mergeConfig(base: ResolvedConfig, layer: PowerShellConfig): ResolvedConfig {
+	const sessions = { ...base.sessions };
+	for (const [name, def] of Object.entries(layer.sessions ?? {})) {
+		sessions[name] = { ...sessions[name], ...def };
+	}
+	return {
+		timeout: layer.timeout ?? base.timeout,
+		output: { ...base.output, ...layer.output },
+		utf8: layer.utf8 ?? base.utf8,
+		host: { ...base.host, ...layer.host },
+		jobs: { ...base.jobs, ...layer.jobs, env: { ...base.jobs.env, ...layer.jobs?.env } },
+		sessions,
+		heartbeat: { ...base.heartbeat, ...layer.heartbeat },
+		sessionIdleTimeout: layer.sessionIdleTimeout ?? base.sessionIdleTimeout,
+		// Project rules go before user rules, so the project can override them (only to be stricter, see loadConfig)
+		guard: {
+			enabled: layer.guard?.enabled ?? base.guard.enabled,
+			rules: [...(layer.guard?.rules ?? []), ...base.guard.rules],
+		},
+	};
+}
+
+/** Relative directories (and host paths that contain a separator) are project-relative */
+function resolvePaths(config: ResolvedConfig, projectDir: string): ResolvedConfig {
+	const abs = (p: string) => isAbsolute(p) ? p : resolve(projectDir, p);
+	const hostPath = config.host.path && /[\\/]/.test(config.host.path) ? abs(config.host.path) : config.host.path;
+	return {
+		...config,
+		output: { ...config.output, dir: abs(config.output.dir) },
+		host: { ...config.host, path: hostPath },
+		jobs: { ...config.jobs, logDir: abs(config.jobs.logDir) },
+	};
+}
+
+/** A project layer without what only the user file may set: host.path, guard.enabled false and allow rules */
+export function restrictProjectConfig(layer: PowerShellConfig, file: string): { config: PowerShellConfig; notices: string[] } {
+	const notices: string[] = [];
+	let { host, guard } = layer;
+	if (host?.path !== undefined) {
+		notices.push(`${file}: host.path ignored — only the user config can choose the PowerShell executable`);
+		const { path: _path, ...rest } = host;
+		host = rest;
+	}
+	if (guard?.enabled === false) {
+		notices.push(`${file}: guard.enabled false ignored — only the user config can turn the command guard off`);
+		const { enabled: _enabled, ...rest } = guard;
+		guard = rest;
+	}
+	const allowed = guard?.rules?.filter(rule => rule.action === 'allow') ?? [];
+	if (guard?.rules && allowed.length > 0) {
+		notices.push(`${file}: ${allowed.length} guard rule(s) with action "allow" ignored — only the user config can exempt commands from the guard`);
+		guard = { ...guard, rules: guard.rules.filter(rule => rule.action !== 'allow') };
+	}
+	return { config: { ...layer, host, guard }, notices };
+}
+
+/**
+ * Load user and project config over the defaults and make it the active config.
+ * Returns the problems found (each invalid file is skipped entirely) and the notices
+ * for project settings that were ignored.
+ */
+export function loadConfig(projectDir: string, homeDir = homedir()): { config: ResolvedConfig; errors: string[]; notices: string[] } {
+	const paths = getConfigPaths(projectDir, homeDir);
+	let config = defaultConfig();
+	const errors: string[] = [];
+	const notices: string[] = [];
+	for (const file of paths.user === paths.project ? [paths.project] : [paths.user, paths.project]) {
+		const read = readConfigFile(file);
+		errors.push(...read.errors);
+		if (!read.config) continue;
+		if (file === paths.user) {
+			config = mergeConfig(config, read.config);
+			continue;
+		}
+		const restricted = restrictProjectConfig(read.config, file);
+		notices.push(...restricted.notices);
+		config = mergeConfig(config, restricted.config);
+	}
+	config = resolvePaths(config, projectDir);
+	setConfig(config);
+	return { config, errors, notices };
+}
@@ -0,0 +1,121 @@
+/**
+ * Destructive-command guard for the powershell tool.
+ *
+ * Commands are parsed with PowerShell's own parser (see script-analysis) into the cmdlets
+ * they invoke — aliases resolved, parameters and arguments listed — and each one is
+ * checked against the policy: user rules first, then DEFAULT_RULES. The first matching
+ * rule decides allow / confirm / deny for that command; the strictest decision wins.
+ *
+ * This stops accidents, not adversaries: dynamically built command names and aliases
+ * defined inside the command itself are not seen by a static parse.
+ */
+
+import { Type, type Static } from "@sinclair/typebox";
+import type { CommandUse } from "../tools/script-analysis.js";
+
+export const GuardRuleSchema = Type.Object({
+	/** Command name, wildcards allowed (Remove-Item, Format-*) — matched after alias resolution */
+	command: Type.String({ minLength: 1 }),
+	/** Parameters that must all be present (abbreviations like -r count) */
+	parameters: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+	/** Regex one of the arguments must match (case-insensitive) */
+	argumentPattern: Type.Optional(Type.String()),
+	action: Type.Union([Type.Literal("allow"), Type.Literal("confirm"), Type.Literal("deny")]),
+	reason: Type.Optional(Type.String()),
+}, { additionalProperties: false });
+
+export type GuardRule = Static<typeof GuardRuleSchema>;
+export type GuardAction = GuardRule['action'];
+
+export interface GuardFinding {
+	command: string;
+	resolved: string;
+	line: number;
+	action: Exclude<GuardAction, 'allow'>;
+	reason: string;
+	rule: GuardRule;
+}
+
+export interface GuardVerdict {
+	action: GuardAction;
+	/** Commands that need confirmation or are denied */
+	findings: GuardFinding[];
+}
+
+const DRIVE_ROOT_OR_SYSTEM = String.raw`^['"]?([A-Za-z]:[\\/]?|[\\/]|~[\\/]?|\$env:(SystemRoot|windir|ProgramFiles|USERPROFILE)[\\/]?|[A-Za-z]:[\\/](Windows|Program Files|Program Files \(x86\)|Users)[\\/]?)['"]?$`;
+
+export const DEFAULT_RULES: GuardRule[] = [
+	{ command: 'Remove-Item', parameters: ['Recurse'], argumentPattern: DRIVE_ROOT_OR_SYSTEM, action: 'deny', reason: 'Recursive delete of a drive root, system or profile folder' },
+	{ command: 'Remove-Item', parameters: ['Recurse'], action: 'confirm', reason: 'Recursive delete' },
+	{ command: 'Format-Volume', action: 'deny', reason: 'Erases a volume' },
+	{ command: 'Clear-Disk', action: 'deny', reason: 'Erases a disk' },
+	{ command: 'Initialize-Disk', action: 'deny', reason: 'Re-initializes a disk' },
+	{ command: 'Remove-Partition', action: 'deny', reason: 'Deletes a partition' },
+	{ command: 'Stop-Computer', action: 'confirm', reason: 'Shuts down the machine' },
+	{ command: 'Restart-Computer', action: 'confirm', reason: 'Restarts the machine' },
+];
+
+function wildcard(pattern: string): RegExp {
+	const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+	return new RegExp(`^${escaped}$`, 'i');
+}
+
+function hasParameter(given: string[], wanted: string): boolean {
+	const w = wanted.toLowerCase();
+	// PowerShell accepts any unambiguous prefix: -r, -Rec, -Recurse
+	return given.some(g => g.length > 0 && w.startsWith(g.toLowerCase()));
+}
+
+function stripQuotes(text: string): string {
+	return text.replace(/^(['"])(.*)\1$/s, '$2');
+}
+
+export function ruleMatches(rule: GuardRule, use: CommandUse): boolean {
+	const pattern = wildcard(rule.command);
+	if (!pattern.test(use.resolved) && !pattern.test(use.name)) return false;
+	if (rule.parameters && !rule.parameters.every(p => hasParameter(use.parameters, p))) return false;
+	if (rule.argumentPattern) {
+		const re = new RegExp(rule.argumentPattern, 'i');
+		if (!use.arguments.some(a => re.test(a) || re.test(stripQuotes(a)))) return false;
+	}
+	return true;
+}
+
+/** Apply the policy to every command; the strictest decision wins */
+export function evaluateCommands(uses: CommandUse[], rules: GuardRule[]): GuardVerdict {
+	const findings: GuardFinding[] = [];
+	for (const use of uses) {
+		const rule = rules.find(r => ruleMatches(r, use));
+		if (!rule || rule.action === 'allow') continue;
+		findings.push({
+			command: use.name,
+			resolved: use.resolved,
+			line: use.line,
+			action: rule.action,
+			reason: rule.reason ?? `Matches guard rule for ${rule.command}`,
+			rule,
+		});
+	}
+	const action = findings.some(f => f.action === 'deny') ? 'deny' : findings.length > 0 ? 'confirm' : 'allow';
+	return { action, findings };
+}
+
+/**
+ * Verdict for a command the parser couldn't analyze (no host, timeout): nothing can be
+ * checked against the rules, so it needs confirmation rather than running unchecked.
+ */
+export function unanalyzedVerdict(): GuardVerdict {
+	const reason = 'Could not be analyzed, so the guard rules were not checked';
+	return {
+		action: 'confirm',
+		findings: [{ command: '(unparsed)', resolved: '(unparsed)', line: 1, action: 'confirm', reason, rule: { command: '*', action: 'confirm', reason } }],
+	};
+}
+
+/** "line 2: rm (Remove-Item) — Recursive delete" */
+export function describeFindings(findings: GuardFinding[]): string {
+	return findings.map(f => {
+		const name = f.command.toLowerCase() === f.resolved.toLowerCase() ? f.resolved : `${f.command} (${f.resolved})`;
+		return `line ${f.line}: ${name} — ${f.reason} [${f.action}]`;
+	}).join('\n');
+}
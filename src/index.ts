@@ -6,14 +6,42 @@
 
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
 import { registerPowerShellTool } from "./tools/powershell.js";
-import { registerJobHelpers } from "./tools/job-helpers.js";
+import { registerJobHelpers, restoreJobs } from "./tools/job-helpers.js";
 import { registerPSessionTools } from "./tools/psession-tools.js";
 import { sessionManager } from "./session/session-manager.js";
+import { loadConfig } from "./config/config.js";
+import { configureHost } from "./process/powershell-host.js";
 
 export default function activate(pi: ExtensionAPI): void {
+	// .pi/powershell.json + ~/.pi/agent/powershell.json; invalid files fall back to defaults
+	const { config, errors, notices } = loadConfig(process.cwd());
+	configureHost(config.host);
+	sessionManager.configureHeartbeat({
+		intervalMs: config.heartbeat.interval * 1000,
+		autoReconnect: config.heartbeat.autoReconnect,
+		maxAttempts: config.heartbeat.maxAttempts,
+		backoffMs: config.heartbeat.backoff * 1000,
+	});
+	sessionManager.configureIdleTimeout(config.sessionIdleTimeout * 1000);
+	const warnings = [
+		...(errors.length > 0 ? [`pi-powershell: ignoring invalid config\n${errors.join('\n')}`] : []),
+		...(notices.length > 0 ? [`pi-powershell: ignoring project settings\n${notices.join('\n')}`] : []),
+	];
+	if (warnings.length > 0) {
+		let reported = false;
+		pi.on("session_start", (_event, ctx) => {
+			if (reported) return;
+			reported = true;
+			ctx.ui.notify(warnings.join('\n\n'), "warning");
+		});
+	}
+
 	registerPowerShellTool(pi);
 	registerJobHelpers(pi);
 	registerPSessionTools(pi);
+
+	// Reattach to background jobs started before a pi restart or extension reload
+	void restoreJobs(process.cwd());
 	
 	// Handle extension cleanup
 	process.on('SIGINT', async () => {
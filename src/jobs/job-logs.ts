@@ -0,0 +1,154 @@
+/**
+ * Job log file helpers — read the redirect targets written by background jobs.
+ *
+ * PowerShell 7 writes redirected output as UTF-8, Windows PowerShell 5.1 as UTF-16LE
+ * with a BOM, so the encoding is detected from the first bytes.
+ */
+
+import { closeSync, existsSync, openSync, readFileSync, readSync, statSync } from "fs";
+
+/** Decode a log buffer, honoring a UTF-16LE / UTF-8 byte order mark */
+export function decodeLog(buf: Buffer): string {
+	if (buf.length >= 2 && buf[0] === 0xff && buf[1] === 0xfe) return buf.subarray(2).toString('utf16le');
+	if (buf.length >= 3 && buf[0] === 0xef && buf[1] === 0xbb && buf[2] === 0xbf) return buf.subarray(3).toString('utf8');
+	return buf.toString('utf8');
+}
+
+/** Read a whole log file as text. Missing or locked files read as empty. */
+export function readLogText(file: string): string {
+	try {
+		return existsSync(file) ? decodeLog(readFileSync(file)) : '';
+	} catch {
+		return '';
+	}
+}
+
+/** Last `count` non-trailing lines of a text */
+export function tailLines(text: string, count: number): string {
+	const lines = text.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n');
+	return lines.slice(-count).join('\n');
+}
+
+export interface LogWindowOptions {
+	/** Byte offset to start reading from. Past the end of file (log was truncated) restarts at 0. */
+	start: number;
+	/** Return only the first N lines of the range */
+	head?: number;
+	/** Return only the last N lines of the range */
+	tail?: number;
+}
+
+export interface LogWindow {
+	text: string;
+	/** Byte offset where the returned text starts */
+	start: number;
+	/** Byte offset just past the returned text — the cursor for the next read */
+	end: number;
+	/** File size in bytes at the time of the read */
+	size: number;
+}
+
+type LogEncoding = 'utf8' | 'utf16le';
+
+function readRange(file: string, start: number, end: number): Buffer {
+	const buf = Buffer.alloc(Math.max(0, end - start));
+	if (buf.length === 0) return buf;
+	const fd = openSync(file, 'r');
+	try {
+		const read = readSync(fd, buf, 0, buf.length, start);
+		return buf.subarray(0, read);
+	} finally {
+		closeSync(fd);
+	}
+}
+
+function detectEncoding(file: string, size: number): { encoding: LogEncoding; bom: number } {
+	const head = readRange(file, 0, Math.min(3, size));
+	if (head.length >= 2 && head[0] === 0xff && head[1] === 0xfe) return { encoding: 'utf16le', bom: 2 };
+	if (head.length >= 3 && head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) return { encoding: 'utf8', bom: 3 };
+	return { encoding: 'utf8', bom: 0 };
+}
+
+/** Length of `buf` without a trailing incomplete UTF-8 sequence (the writer may be mid-character) */
+function completeUtf8Length(buf: Buffer): number {
+	let i = buf.length - 1;
+	let continuation = 0;
+	while (i >= 0 && (buf[i] & 0xc0) === 0x80 && continuation < 3) {
+		i--;
+		continuation++;
+	}
+	if (i < 0) return buf.length;
+	const lead = buf[i];
+	const expected = lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+	return continuation + 1 >= expected ? buf.length : i;
+}
+
+/** How much of a log a head or tail read looks at at a time */
+const LINE_SCAN_CHUNK = 64 * 1024;
+
+/** A line feed at `i` (bytes are `unit`-aligned); 0x0A never occurs inside a UTF-8 character */
+function isLineBreak(buf: Buffer, i: number, unit: number): boolean {
+	return buf[i] === 0x0a && (unit === 1 || buf[i + 1] === 0);
+}
+
+/** Offset just past the `count`-th line break in [start, end), or `end` when there are fewer */
+function afterLines(file: string, start: number, end: number, count: number, unit: number): number {
+	let found = 0;
+	for (let from = start; from < end; from += LINE_SCAN_CHUNK) {
+		const buf = readRange(file, from, Math.min(end, from + LINE_SCAN_CHUNK));
+		for (let i = 0; i + unit <= buf.length; i += unit) {
+			if (isLineBreak(buf, i, unit) && ++found === count) return from + i + unit;
+		}
+	}
+	return end;
+}
+
+/** Offset where the last `count` lines of [start, end) begin, reading backwards from `end` */
+function beforeLines(file: string, start: number, end: number, count: number, unit: number): number {
+	let found = 0;
+	// The break that ends the last line doesn't start another one
+	for (let to = end - unit; to > start; to -= LINE_SCAN_CHUNK) {
+		const from = Math.max(start, to - LINE_SCAN_CHUNK);
+		const buf = readRange(file, from, to);
+		for (let i = buf.length - unit; i >= 0; i -= unit) {
+			if (isLineBreak(buf, i, unit) && ++found === count) return from + i + unit;
+		}
+	}
+	return start;
+}
+
+/**
+ * Read a byte range of a log file that a running process may still be appending to.
+ * Offsets are snapped to character boundaries, so a cursor never splits a character
+ * and a half-written character at the end of the file is left for the next read.
+ * Head and tail reads only read as much of the file as their lines take up.
+ */
+export function readLogWindow(file: string, options: LogWindowOptions): LogWindow {
+	const size = existsSync(file) ? statSync(file).size : 0;
+	let start = options.start > size ? 0 : options.start;
+	if (size === 0) return { text: '', start: 0, end: 0, size };
+
+	const { encoding, bom } = detectEncoding(file, size);
+	start = Math.max(start, bom);
+	let end = size;
+	if (encoding === 'utf8') {
+		// Never start in the middle of a multi-byte character
+		const lead = readRange(file, start, Math.min(size, start + 3));
+		let skip = 0;
+		while (skip < lead.length && (lead[skip] & 0xc0) === 0x80) skip++;
+		start += skip;
+		const last = readRange(file, Math.max(start, size - 4), size);
+		end = Math.max(start, size - (last.length - completeUtf8Length(last)));
+	} else {
+		if ((start - bom) % 2 !== 0) start++;
+		end = Math.max(start, size - ((size - start) % 2));
+	}
+
+	const unit = encoding === 'utf16le' ? 2 : 1;
+	if (options.head !== undefined) {
+		end = options.head > 0 ? afterLines(file, start, end, options.head, unit) : start;
+	} else if (options.tail !== undefined) {
+		start = options.tail > 0 ? beforeLines(file, start, end, options.tail, unit) : end;
+	}
+	return { text: readRange(file, start, end).toString(encoding), start, end, size };
+}
@@ -0,0 +1,177 @@
+/**
+ * Job registry — tracked background jobs, persisted to a per-project state file.
+ *
+ * Jobs are detached OS processes that outlive the extension. Keeping the registry
+ * only in memory made them invisible after a pi restart or extension reload, so every
+ * change is written to `.pi/powershell-jobs.json` and read back on activation.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+
+export interface TrackedJob {
+	pid: number;
+	name: string;
+	command: string;
+	workingDirectory: string;
+	stdoutFile: string | null;
+	stderrFile: string | null;  // null = merged with stdout
+	/** Sidecar file where the job wrapper records exit code and finish time */
+	statusFile?: string;
+	startedAt: Date;
+	/** OS start time of the PID (ISO, UTC) — distinguishes our process from a reused PID */
+	processStartTime?: string;
+	/** Process is known to be gone; its PID must not be trusted (or killed) again */
+	exited?: boolean;
+	/** Exit code recorded by the wrapper — undefined for a job that was killed */
+	exitCode?: number;
+	/** When the job finished (from the status file), or when it was found dead */
+	finishedAt?: Date;
+	/** Read cursors (byte offsets) into the log files — output before them has been consumed */
+	cursor?: { stdout: number; stderr: number };
+}
+
+export type JobState = 'Running' | 'Exited' | 'Killed';
+
+/** Serialized form of a TrackedJob (dates as ISO strings) */
+type StoredJob = Omit<TrackedJob, 'startedAt' | 'finishedAt'> & { startedAt: string; finishedAt?: string };
+
+interface StateFile {
+	version: 1;
+	jobs: StoredJob[];
+}
+
+/** In-memory job registry — survives across tool calls because the extension stays loaded */
+export const jobs = new Map<string, TrackedJob>();
+
+let stateFile: string | null = null;
+
+/** Path of the state file for a project directory */
+export function getStateFilePath(projectDir: string): string {
+	return join(projectDir, '.pi', 'powershell-jobs.json');
+}
+
+/**
+ * Load the persisted registry for a project into memory. Subsequent saves go to the
+ * same file. A missing or unreadable file yields an empty registry.
+ */
+export function loadJobs(projectDir: string): TrackedJob[] {
+	stateFile = getStateFilePath(projectDir);
+	jobs.clear();
+	if (!existsSync(stateFile)) return [];
+
+	try {
+		const state = JSON.parse(readFileSync(stateFile, 'utf8')) as StateFile;
+		for (const stored of state.jobs ?? []) {
+			jobs.set(stored.name, {
+				...stored,
+				startedAt: new Date(stored.startedAt),
+				finishedAt: stored.finishedAt ? new Date(stored.finishedAt) : undefined,
+			});
+		}
+	} catch (error) {
+		console.warn(`pi-powershell: ignoring unreadable job state file ${stateFile}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	return Array.from(jobs.values());
+}
+
+/**
+ * Write the registry to the state file. Writes to a temp file and renames so a crash
+ * mid-write never leaves a truncated registry behind. No-op until loadJobs() has run.
+ */
+export function saveJobs(): void {
+	if (!stateFile) return;
+	const state: StateFile = {
+		version: 1,
+		jobs: Array.from(jobs.values()).map(job => ({
+			...job,
+			startedAt: job.startedAt.toISOString(),
+			finishedAt: job.finishedAt?.toISOString(),
+		})),
+	};
+	try {
+		mkdirSync(dirname(stateFile), { recursive: true });
+		const tmp = `${stateFile}.${process.pid}.tmp`;
+		writeFileSync(tmp, JSON.stringify(state, null, '\t'));
+		renameSync(tmp, stateFile);
+	} catch (error) {
+		console.warn(`pi-powershell: failed to persist job state to ${stateFile}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+/**
+ * Whether a live process start time matches the one recorded for a job.
+ * Timestamps are compared with a small tolerance: some platforms derive the start time
+ * from boot time + ticks, so two reads of the same process can differ by milliseconds.
+ */
+export function isSameProcess(job: TrackedJob, liveStartTime: string | undefined): boolean {
+	if (!liveStartTime || !job.processStartTime) return false;
+	const recorded = Date.parse(job.processStartTime);
+	const live = Date.parse(liveStartTime);
+	if (isNaN(recorded) || isNaN(live)) return false;
+	return Math.abs(recorded - live) < 1000;
+}
+
+/** Read the exit status written by a job wrapper. Null until the job has finished. */
+export function readExitStatus(statusFile: string): { exitCode: number; finishedAt: Date } | null {
+	try {
+		if (!existsSync(statusFile)) return null;
+		const raw = readFileSync(statusFile, 'utf8').replace(/^\uFEFF/, '');
+		const status = JSON.parse(raw) as { exitCode: number; finishedAt: string };
+		return { exitCode: Number(status.exitCode), finishedAt: new Date(status.finishedAt) };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Record that a job's process is gone. The wrapper's status file tells a clean exit
+ * (with its code) apart from a kill; without one the job counts as killed. A job we
+ * stopped ourselves is always killed, even if the wrapper recorded a signal exit code.
+ */
+export function markFinished(job: TrackedJob, killed = false): void {
+	job.exited = true;
+	const status = job.statusFile && !killed ? readExitStatus(job.statusFile) : null;
+	if (status) {
+		job.exitCode = status.exitCode;
+		job.finishedAt = status.finishedAt;
+	} else {
+		job.exitCode = undefined;
+		job.finishedAt ??= new Date();
+	}
+}
+
+export function getJobState(job: TrackedJob, running: boolean): JobState {
+	if (running) return 'Running';
+	return job.exitCode !== undefined ? 'Exited' : 'Killed';
+}
+
+/** A job that exited on its own with a non-zero code */
+export function isFailedJob(job: TrackedJob): boolean {
+	return job.exitCode !== undefined && job.exitCode !== 0;
+}
+
+/** Runtime so far (running) or total runtime (finished) */
+export function getJobDuration(job: TrackedJob, running: boolean, now = new Date()): number {
+	const end = running || !job.finishedAt ? now : job.finishedAt;
+	return Math.max(0, end.getTime() - job.startedAt.getTime());
+}
+
+/** Human-readable duration: 850ms, 4.2s, 5m 12s, 2h 3m */
+export function formatDuration(ms: number): string {
+	if (ms < 1000) return `${ms}ms`;
+	const seconds = ms / 1000;
+	if (seconds < 60) return `${seconds.toFixed(1)}s`;
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) return `${minutes}m ${Math.floor(seconds % 60)}s`;
+	return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/** Status label with runtime, e.g. "Running for 5m 12s", "Exited(1) after 3.2s", "Killed after 1h 2m" */
+export function formatJobStatus(job: TrackedJob, running: boolean, now = new Date()): string {
+	const duration = formatDuration(getJobDuration(job, running, now));
+	const state = getJobState(job, running);
+	if (state === 'Running') return `Running for ${duration}`;
+	if (state === 'Exited') return `Exited(${job.exitCode}) after ${duration}`;
+	return `Killed after ${duration}`;
+}
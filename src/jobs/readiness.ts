@@ -0,0 +1,169 @@
+/**
+ * Readiness probes for background jobs.
+ *
+ * Start-Process returns as soon as the process exists, long before a dev server is
+ * listening. waitForReady() polls the criteria given to pwsh-start-job until all of
+ * them hold, the process exits, the ready timeout expires, or the call is cancelled.
+ */
+
+import { connect } from "net";
+import { readLogText, tailLines } from "./job-logs.js";
+import { isPidAlive } from "../process/process-tree.js";
+
+export interface ReadyCriteria {
+	/** Regex that must match the job's log output */
+	logPattern?: string;
+	/** TCP port that must accept connections */
+	port?: number;
+	/** Host for the port probe (default: localhost) */
+	host?: string;
+	/** HTTP(S) URL that must answer with a 2xx status */
+	url?: string;
+	/** Milliseconds to wait before giving up (default: 60000) */
+	timeout?: number;
+}
+
+export type ReadyStatus = 'ready' | 'exited' | 'timeout' | 'cancelled';
+
+export interface ReadyResult {
+	status: ReadyStatus;
+	elapsedMs: number;
+	/** Criteria that were not satisfied when waiting ended */
+	pending: string[];
+	/** Last lines of the job's logs — set when the job did not become ready */
+	logTail?: string;
+}
+
+export interface ReadyTarget {
+	pid: number;
+	logFiles: string[];
+}
+
+/** Called after every poll with the criteria still pending */
+export type OnReadyProgress = (elapsedMs: number, pending: string[]) => void;
+
+interface Probe {
+	label: string;
+	check: () => Promise<boolean>;
+}
+
+function probePort(port: number, host: string, timeoutMs = 1000): Promise<boolean> {
+	return new Promise((resolve) => {
+		const socket = connect({ port, host });
+		const done = (ok: boolean) => {
+			socket.destroy();
+			resolve(ok);
+		};
+		socket.setTimeout(timeoutMs, () => done(false));
+		socket.once('connect', () => done(true));
+		socket.once('error', () => done(false));
+	});
+}
+
+async function probeUrl(url: string, timeoutMs = 2000): Promise<boolean> {
+	try {
+		const res = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+		return res.status >= 200 && res.status < 300;
+	} catch {
+		return false;
+	}
+}
+
+/** Validate criteria before the job is started. Returns an error message, or null. */
+export function validateReadyCriteria(criteria: ReadyCriteria, logFiles: string[]): string | null {
+	if (criteria.logPattern === undefined && criteria.port === undefined && criteria.url === undefined) {
+		return 'readyWhen needs at least one of logPattern, port or url';
+	}
+	if (criteria.logPattern !== undefined) {
+		if (logFiles.length === 0) return 'readyWhen.logPattern needs captured output (stdout or stderr must not be "null")';
+		try {
+			new RegExp(criteria.logPattern, 'm');
+		} catch (error) {
+			return `Invalid readyWhen.logPattern: ${error instanceof Error ? error.message : String(error)}`;
+		}
+	}
+	if (criteria.url !== undefined && !/^https?:\/\//i.test(criteria.url)) {
+		return `Invalid readyWhen.url '${criteria.url}': must start with http:// or https://`;
+	}
+	return null;
+}
+
+function buildProbes(target: ReadyTarget, criteria: ReadyCriteria): Probe[] {
+	const probes: Probe[] = [];
+	if (criteria.logPattern !== undefined) {
+		const regex = new RegExp(criteria.logPattern, 'm');
+		probes.push({
+			label: `log matches /${criteria.logPattern}/`,
+			check: async () => target.logFiles.some(file => regex.test(readLogText(file))),
+		});
+	}
+	if (criteria.port !== undefined) {
+		const host = criteria.host || 'localhost';
+		const port = criteria.port;
+		probes.push({ label: `port ${host}:${port} open`, check: () => probePort(port, host) });
+	}
+	if (criteria.url !== undefined) {
+		const url = criteria.url;
+		probes.push({ label: `${url} returns 2xx`, check: () => probeUrl(url) });
+	}
+	return probes;
+}
+
+function logTail(target: ReadyTarget, lines = 20): string {
+	return target.logFiles
+		.map(file => tailLines(readLogText(file), lines))
+		.filter(Boolean)
+		.join('\n');
+}
+
+/** Resolves after `ms`, or as soon as `signal` aborts */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise(resolve => {
+		const done = () => {
+			clearTimeout(timer);
+			signal?.removeEventListener('abort', done);
+			resolve();
+		};
+		const timer = setTimeout(done, ms);
+		signal?.addEventListener('abort', done, { once: true });
+	});
+}
+
+/**
+ * Poll until every criterion is satisfied. A criterion stays satisfied once met,
+ * so a log line scrolling away or a flaky probe doesn't reset progress. Aborting
+ * `signal` stops the wait (not the job) with status 'cancelled'.
+ */
+export async function waitForReady(
+	target: ReadyTarget,
+	criteria: ReadyCriteria,
+	onProgress?: OnReadyProgress,
+	pollInterval = 500,
+	signal?: AbortSignal,
+): Promise<ReadyResult> {
+	const timeout = criteria.timeout ?? 60000;
+	const started = Date.now();
+	let pending = buildProbes(target, criteria);
+
+	for (;;) {
+		const results = await Promise.all(pending.map(p => p.check()));
+		pending = pending.filter((_, i) => !results[i]);
+		const elapsedMs = Date.now() - started;
+
+		if (pending.length === 0) return { status: 'ready', elapsedMs, pending: [] };
+
+		const labels = pending.map(p => p.label);
+		if (signal?.aborted) {
+			return { status: 'cancelled', elapsedMs, pending: labels };
+		}
+		if (!isPidAlive(target.pid)) {
+			return { status: 'exited', elapsedMs, pending: labels, logTail: logTail(target) };
+		}
+		if (elapsedMs >= timeout) {
+			return { status: 'timeout', elapsedMs, pending: labels, logTail: logTail(target) };
+		}
+
+		onProgress?.(elapsedMs, labels);
+		await sleep(Math.min(pollInterval, timeout - elapsedMs), signal);
+	}
+}
@@ -0,0 +1,125 @@
+/**
+ * PowerShell host resolution — which executable runs our commands.
+ *
+ * PowerShell 7 (`pwsh`, edition "core") is preferred; Windows PowerShell 5.1
+ * (`powershell.exe`, edition "desktop") is the fallback on machines without it.
+ * A custom path (configureHost / PI_POWERSHELL_PATH) pins a specific install.
+ * Each candidate is probed once for its version and edition, and the result is cached.
+ */
+
+import { execFile } from "child_process";
+import { win32 } from "path";
+
+/** core = PowerShell 7+ (pwsh), desktop = Windows PowerShell 5.1 (powershell.exe) */
+export type PowerShellEdition = 'core' | 'desktop';
+
+export interface PowerShellHost {
+	/** Executable to spawn */
+	path: string;
+	edition: PowerShellEdition;
+	/** $PSVersionTable.PSVersion, e.g. "7.4.6" */
+	version: string;
+}
+
+export interface HostSettings {
+	/** Explicit executable; used by 'auto' resolution and when its edition matches */
+	path?: string;
+	/** Edition used when a call doesn't ask for one (default: auto — core, then desktop) */
+	edition?: PowerShellEdition;
+}
+
+export class PowerShellHostError extends Error {
+	constructor(message: string, readonly tried: string[]) {
+		super(message);
+		this.name = 'PowerShellHostError';
+	}
+}
+
+const PROBE = '$PSVersionTable.PSVersion.ToString(); $PSVersionTable.PSEdition';
+
+let settings: HostSettings = {};
+const probes = new Map<string, Promise<PowerShellHost | null>>();
+
+/** Set the default host path/edition. Clears cached resolutions. */
+export function configureHost(next: HostSettings): void {
+	settings = { ...next };
+	probes.clear();
+}
+
+/** Parse the PROBE output: "7.4.6\nCore" */
+export function parseHostProbe(path: string, output: string): PowerShellHost | null {
+	const [version, edition] = output.trim().split(/\r?\n/).map(l => l.trim());
+	if (!version || !/^\d+\.\d+/.test(version)) return null;
+	// 5.1 reports "Desktop"; PowerShell 6+ reports "Core"
+	const isDesktop = edition ? edition.toLowerCase() === 'desktop' : parseInt(version, 10) < 6;
+	return { path, edition: isDesktop ? 'desktop' : 'core', version };
+}
+
+/** Executables to try for an edition, most specific first */
+export function candidatePaths(
+	edition: PowerShellEdition,
+	platform: NodeJS.Platform = process.platform,
+	env: NodeJS.ProcessEnv = process.env,
+): string[] {
+	if (edition === 'desktop') {
+		if (platform !== 'win32') return [];
+		const systemRoot = env.SystemRoot ?? env.SYSTEMROOT ?? 'C:\\Windows';
+		return ['powershell.exe', win32.join(systemRoot, 'System32', 'WindowsPowerShell', 'v1.0', 'powershell.exe')];
+	}
+	if (platform === 'win32') {
+		const programFiles = env.ProgramFiles ?? env.PROGRAMFILES ?? 'C:\\Program Files';
+		return ['pwsh.exe', win32.join(programFiles, 'PowerShell', '7', 'pwsh.exe'), win32.join(programFiles, 'PowerShell', '7-preview', 'pwsh.exe')];
+	}
+	return ['pwsh', '/usr/bin/pwsh', '/usr/local/bin/pwsh', '/opt/microsoft/powershell/7/pwsh', '/opt/homebrew/bin/pwsh'];
+}
+
+function probe(path: string): Promise<PowerShellHost | null> {
+	let pending = probes.get(path);
+	if (!pending) {
+		pending = new Promise((resolve) => {
+			execFile(path, ['-NoProfile', '-NonInteractive', '-Command', PROBE], { timeout: 15000, windowsHide: true }, (error, stdout) => {
+				resolve(error ? null : parseHostProbe(path, stdout ?? ''));
+			});
+		});
+		probes.set(path, pending);
+		// Failures aren't cached, so installing PowerShell doesn't need a restart
+		void pending.then(host => { if (!host) probes.delete(path); });
+	}
+	return pending;
+}
+
+/**
+ * Find a usable host. Without an edition the configured one is used; 'auto' tries
+ * the custom path, then PowerShell 7, then Windows PowerShell 5.1.
+ * Throws PowerShellHostError listing what was tried.
+ */
+export async function resolveHost(edition: PowerShellEdition | 'auto' = settings.edition ?? 'auto'): Promise<PowerShellHost> {
+	const customPath = settings.path ?? process.env.PI_POWERSHELL_PATH;
+	const tried: string[] = [];
+
+	if (customPath) {
+		tried.push(customPath);
+		const host = await probe(customPath);
+		if (host && (edition === 'auto' || host.edition === edition)) return host;
+	}
+
+	const editions: PowerShellEdition[] = edition === 'auto' ? ['core', 'desktop'] : [edition];
+	for (const ed of editions) {
+		for (const path of candidatePaths(ed)) {
+			tried.push(path);
+			const host = await probe(path);
+			if (host && host.edition === ed) return host;
+		}
+	}
+
+	const wanted = edition === 'desktop' ? 'Windows PowerShell 5.1' : edition === 'core' ? 'PowerShell 7 (pwsh)' : 'PowerShell';
+	const install = edition === 'desktop'
+		? 'Windows PowerShell is only available on Windows.'
+		: 'Install PowerShell 7 (winget install Microsoft.PowerShell, or see https://aka.ms/powershell) or point PI_POWERSHELL_PATH at pwsh/powershell.exe.';
+	throw new PowerShellHostError(`No usable ${wanted} host found. ${install} Tried: ${tried.join(', ') || 'nothing'}`, tried);
+}
+
+/** "PowerShell 7.4.6" / "Windows PowerShell 5.1.19041.5247" */
+export function describeHost(host: PowerShellHost): string {
+	return `${host.edition === 'desktop' ? 'Windows PowerShell' : 'PowerShell'} ${host.version}`;
+}
@@ -0,0 +1,153 @@
+/**
+ * Process tree termination.
+ *
+ * Killing a job's PID only kills the hidden wrapper `pwsh`; the node/vite/cmd children
+ * it spawned keep running and keep their ports. killProcessTree() enumerates every
+ * descendant first, asks them all to exit, and force-kills whatever is left after a
+ * grace period.
+ */
+
+import { execFile } from "child_process";
+import { resolveHost } from "./powershell-host.js";
+
+export interface ProcessEntry {
+	pid: number;
+	parentPid: number;
+	/** Process start time (epoch ms), 0 when unknown */
+	startedAt: number;
+}
+
+export interface KillTreeOptions {
+	/** How long to wait for a graceful exit before force-killing (default: 5000ms) */
+	gracePeriodMs?: number;
+	/** Kill the root process too (default: true). False kills only its descendants. */
+	includeRoot?: boolean;
+}
+
+export interface KillTreeResult {
+	/** Every process found in the tree, root first */
+	pids: number[];
+	killed: number[];
+	survived: number[];
+}
+
+/**
+ * One line per process: "pid parentPid startEpochMs". Windows uses CIM (works in 5.1);
+ * Linux/macOS use the Parent property PowerShell 7 adds to Process objects.
+ */
+const LIST_PROCESSES = [
+	`$procs = if ($IsLinux -or $IsMacOS) { Get-Process | ForEach-Object { [pscustomobject]@{ Id = $_.Id; ParentId = $_.Parent.Id; Start = $_.StartTime } } }`,
+	`else { Get-CimInstance Win32_Process | ForEach-Object { [pscustomobject]@{ Id = $_.ProcessId; ParentId = $_.ParentProcessId; Start = $_.CreationDate } } }`,
+	`$procs | ForEach-Object { '{0} {1} {2}' -f $_.Id, [int]$_.ParentId, $(if ($_.Start) { ([DateTimeOffset]$_.Start).ToUnixTimeMilliseconds() } else { 0 }) }`,
+].join('; ');
+
+/** Whether an OS process with this PID exists */
+export function isPidAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM: the process exists but belongs to someone else
+		return (error as NodeJS.ErrnoException).code === 'EPERM';
+	}
+}
+
+export function parseProcessList(output: string): ProcessEntry[] {
+	const entries: ProcessEntry[] = [];
+	for (const line of output.split('\n')) {
+		const [pid, parentPid, startedAt] = line.trim().split(/\s+/).map(n => parseInt(n, 10));
+		if (!isNaN(pid) && !isNaN(parentPid)) entries.push({ pid, parentPid, startedAt: startedAt || 0 });
+	}
+	return entries;
+}
+
+/**
+ * Root plus all descendants, breadth-first (parents before children).
+ * A child must have started after its parent: Windows keeps a dead parent's PID in
+ * ParentProcessId, so a recycled PID would otherwise adopt unrelated processes.
+ */
+export function collectDescendants(rootPid: number, processes: ProcessEntry[]): number[] {
+	const byPid = new Map(processes.map(p => [p.pid, p]));
+	const children = new Map<number, ProcessEntry[]>();
+	for (const p of processes) {
+		if (p.pid === p.parentPid) continue;
+		const list = children.get(p.parentPid) ?? [];
+		list.push(p);
+		children.set(p.parentPid, list);
+	}
+
+	const result: number[] = [];
+	const seen = new Set<number>();
+	const queue = byPid.has(rootPid) ? [rootPid] : [];
+	while (queue.length > 0) {
+		const pid = queue.shift()!;
+		if (seen.has(pid)) continue;
+		seen.add(pid);
+		result.push(pid);
+		const parent = byPid.get(pid)!;
+		for (const child of children.get(pid) ?? []) {
+			if (parent.startedAt && child.startedAt && child.startedAt < parent.startedAt) continue;
+			queue.push(child.pid);
+		}
+	}
+	return result;
+}
+
+function execQuiet(file: string, args: string[], timeout: number): Promise<string> {
+	return new Promise((resolve) => {
+		execFile(file, args, { timeout, windowsHide: true, maxBuffer: 16 * 1024 * 1024 }, (_error, stdout) => resolve(stdout ?? ''));
+	});
+}
+
+/** PIDs of a process and all its descendants, root first. Empty if the root is gone. */
+export async function listProcessTree(rootPid: number): Promise<number[]> {
+	const host = await resolveHost().catch(() => null);
+	if (!host) return [];
+	const output = await execQuiet(host.path, ['-NoProfile', '-NonInteractive', '-Command', LIST_PROCESSES], 15000);
+	return collectDescendants(rootPid, parseProcessList(output));
+}
+
+async function waitForExit(pids: number[], timeoutMs: number): Promise<void> {
+	const deadline = Date.now() + timeoutMs;
+	while (pids.some(isPidAlive) && Date.now() < deadline) {
+		await new Promise(resolve => setTimeout(resolve, 100));
+	}
+}
+
+/** Ask processes to exit: WM_CLOSE via taskkill (no /F) on Windows, SIGTERM elsewhere */
+async function signalGraceful(pids: number[]): Promise<void> {
+	if (process.platform === 'win32') {
+		await execQuiet('taskkill', pids.flatMap(pid => ['/PID', String(pid)]), 10000);
+		return;
+	}
+	for (const pid of pids) {
+		try { process.kill(pid, 'SIGTERM'); } catch { }
+	}
+}
+
+/**
+ * Terminate a process and all of its descendants — gracefully first, then forcibly
+ * after the grace period. Parents are killed before children so a supervisor can't
+ * respawn a child we just killed.
+ */
+export async function killProcessTree(rootPid: number, options: KillTreeOptions = {}): Promise<KillTreeResult> {
+	const { gracePeriodMs = 5000, includeRoot = true } = options;
+	const tree = await listProcessTree(rootPid);
+	const pids = includeRoot ? tree : tree.filter(pid => pid !== rootPid);
+	if (pids.length === 0) return { pids, killed: [], survived: [] };
+
+	if (gracePeriodMs > 0) {
+		await signalGraceful(pids);
+		await waitForExit(pids, gracePeriodMs);
+	}
+
+	const remaining = pids.filter(isPidAlive);
+	for (const pid of remaining) {
+		// On Windows this is TerminateProcess regardless of the signal name
+		try { process.kill(pid, 'SIGKILL'); } catch { }
+	}
+	if (remaining.length > 0) await waitForExit(remaining, 2000);
+
+	const survived = pids.filter(isPidAlive);
+	return { pids, killed: pids.filter(pid => !survived.includes(pid)), survived };
+}
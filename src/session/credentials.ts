@@ -0,0 +1,115 @@
+/**
+ * Credential sources for remote sessions.
+ *
+ * The host process builds the PSCredential itself, from an environment variable
+ * pair, a SecretManagement vault entry or a CLIXML file, so the generated scripts
+ * only ever name where the secret lives. A password typed into pi's prompt reaches
+ * the host through PROMPTED_PASSWORD_VARIABLE in its environment and is removed from
+ * there as soon as it's read.
+ */
+
+import { Type, type Static } from "@sinclair/typebox";
+
+const VariableName = Type.String({ minLength: 1, pattern: '^[A-Za-z_][A-Za-z0-9_]*$' });
+
+export const CredentialSourceSchema = Type.Union([
+	Type.Object({
+		type: Type.Literal("env"),
+		/** Holds the user name; falls back to the session's `credential` */
+		usernameVariable: Type.Optional(VariableName),
+		passwordVariable: VariableName,
+	}, { additionalProperties: false }),
+	Type.Object({
+		type: Type.Literal("vault"),
+		/** SecretManagement secret: a PSCredential, or a password for the session's `credential` */
+		name: Type.String({ minLength: 1 }),
+		vault: Type.Optional(Type.String({ minLength: 1 })),
+	}, { additionalProperties: false }),
+	Type.Object({
+		type: Type.Literal("file"),
+		/** Written by `Get-Credential | Export-Clixml <path>` */
+		path: Type.String({ minLength: 1 }),
+	}, { additionalProperties: false }),
+	Type.Object({
+		type: Type.Literal("prompt"),
+	}, { additionalProperties: false }),
+]);
+
+export type CredentialSource = Static<typeof CredentialSourceSchema>;
+
+export class CredentialError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'CredentialError';
+	}
+}
+
+/** Hands a prompted password to the session host; never set in pi's own environment */
+export const PROMPTED_PASSWORD_VARIABLE = 'PI_SESSION_PASSWORD';
+
+function psQuote(value: string): string {
+	return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * PowerShell that sets $global:__PiCredential from `source`, or undefined when the
+ * session authenticates as the current user. Failures throw in the host with a
+ * message that names the source, never its contents.
+ */
+export function credentialScript(source: CredentialSource | undefined, username: string | undefined): string | undefined {
+	if (!source) {
+		if (username) {
+			throw new CredentialError(`A user name ('${username}') needs a credentialSource — env, vault, file or prompt — since there is no console to ask for the password`);
+		}
+		return undefined;
+	}
+
+	const user = username ? psQuote(username) : '$null';
+	const fromPassword = (password: string) =>
+		`[pscredential]::new($__piUser, (ConvertTo-SecureString -String ${password} -AsPlainText -Force))`;
+	const requireUser = (what: string) =>
+		`if (-not $__piUser) { throw ${psQuote(`${what} needs the session's credential (user name)`)} }`;
+
+	switch (source.type) {
+		case 'env': {
+			const password = `$env:${source.passwordVariable}`;
+			const lines = [
+				`$__piUser = ${source.usernameVariable ? `$env:${source.usernameVariable}` : user}`,
+				`if ($null -eq ${password}) { throw ${psQuote(`Environment variable ${source.passwordVariable} is not set`)} }`,
+				requireUser(`Environment variable ${source.passwordVariable}`),
+				`$global:__PiCredential = ${fromPassword(password)}`,
+			];
+			return lines.join('\n');
+		}
+		case 'vault': {
+			const vault = source.vault ? ` -Vault ${psQuote(source.vault)}` : '';
+			return [
+				`if (-not (Get-Command Get-Secret -ErrorAction SilentlyContinue)) { throw 'Vault credentials need the Microsoft.PowerShell.SecretManagement module' }`,
+				`$__piUser = ${user}`,
+				`$__piSecret = Get-Secret -Name ${psQuote(source.name)}${vault} -ErrorAction Stop`,
+				`if ($__piSecret -is [pscredential]) { $global:__PiCredential = $__piSecret }`,
+				`else {`,
+				`\t${requireUser(`Secret '${source.name}'`)}`,
+				`\tif ($__piSecret -isnot [securestring]) { $__piSecret = ConvertTo-SecureString -String "$__piSecret" -AsPlainText -Force }`,
+				`\t$global:__PiCredential = [pscredential]::new($__piUser, $__piSecret)`,
+				`}`,
+				`Remove-Variable __piSecret`,
+			].join('\n');
+		}
+		case 'file':
+			return [
+				`$global:__PiCredential = Import-Clixml -Path ${psQuote(source.path)} -ErrorAction Stop`,
+				`if ($global:__PiCredential -isnot [pscredential]) { throw ${psQuote(`${source.path} does not hold a credential (create it with Get-Credential | Export-Clixml)`)} }`,
+			].join('\n');
+		case 'prompt':
+			return [
+				`$__piUser = ${user}`,
+				requireUser('A prompted password'),
+				`$__piPassword = $env:${PROMPTED_PASSWORD_VARIABLE}`,
+				`Remove-Item -Path Env:${PROMPTED_PASSWORD_VARIABLE} -ErrorAction SilentlyContinue`,
+				`if ($null -eq $__piPassword) { throw 'The prompted password did not reach the session host' }`,
+				`$global:__PiCredential = ${fromPassword('$__piPassword')}`,
+				`Remove-Variable __piPassword`,
+			].join('\n');
+	}
+}
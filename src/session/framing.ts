@@ -0,0 +1,258 @@
+/**
+ * Framed protocol between the session manager and a local session's pwsh process.
+ *
+ * Each command is sent as one stdin line and runs dot-sourced at global scope, so
+ * session state persists. Everything it produces comes back as length-delimited
+ * records on stdout, written as raw bytes:
+ *
+ *     \x1ePI <nonce> <type> <byteLength>\n<UTF-8 payload>\n
+ *
+ * The nonce is random per command, so user output can't end a command early, and
+ * records of an earlier (timed-out) command are recognised and dropped. Output written
+ * around PowerShell's pipeline ([Console]::Out, native handles) arrives unframed and
+ * is kept as raw stdout. Multi-byte characters split across chunks are reassembled.
+ *
+ * The command runs as a nested pipeline of the host's runspace. While it runs, the host
+ * isn't reading stdin, so a stop is requested by creating the command's stop file
+ * (stopFilePath); a watcher on a second runspace then stops the nested pipeline.
+ */
+
+import { randomBytes } from "crypto";
+import { tmpdir } from "os";
+import { join } from "path";
+import { StringDecoder } from "string_decoder";
+
+export type FrameType = 'output' | 'error' | 'warning' | 'verbose' | 'debug' | 'information' | 'end' | 'ready';
+
+export type FrameEvent =
+	| { type: FrameType; data: string }
+	/** Unframed bytes, decoded */
+	| { type: 'raw'; data: string };
+
+/** Payload of the 'end' record */
+export interface FrameEnd {
+	/** $? after the command's last statement */
+	success: boolean;
+	/** $LASTEXITCODE — null when no native command ran */
+	exitCode: number | null;
+	durationMs: number;
+	/** The host's location once the command finished */
+	location?: string;
+}
+
+export interface SessionStreams {
+	error: string[];
+	warning: string[];
+	verbose: string[];
+	debug: string[];
+	information: string[];
+}
+
+const MARKER = '\x1ePI ';
+const MARKER_BYTES = Buffer.from(MARKER, 'latin1');
+const FRAME_TYPES = new Set<string>(['output', 'error', 'warning', 'verbose', 'debug', 'information', 'end', 'ready']);
+/** "<nonce> <type> <length>" never gets near this; anything longer isn't a header */
+const MAX_HEADER = 64;
+
+/**
+ * Defines the helpers the framed commands call. Sent once, as a single line, when the
+ * session starts. Records go straight to the stdout stream as bytes, so the console
+ * encoding can't mangle them.
+ */
+export const SESSION_PRELUDE = `
+[Console]::OutputEncoding = [System.Text.UTF8Encoding]::new($false)
+$OutputEncoding = [System.Text.UTF8Encoding]::new($false)
+$global:__PiStdout = [Console]::OpenStandardOutput()
+function global:__PiWrite([string]$Nonce, [string]$Type, [string]$Data) {
+	[Console]::Out.Flush()
+	$payload = [System.Text.Encoding]::UTF8.GetBytes($Data)
+	$header = [System.Text.Encoding]::UTF8.GetBytes("$([char]0x1e)PI $Nonce $Type $($payload.Length)\`n")
+	$global:__PiStdout.Write($header, 0, $header.Length)
+	$global:__PiStdout.Write($payload, 0, $payload.Length)
+	$global:__PiStdout.WriteByte(10)
+	$global:__PiStdout.Flush()
+}
+function global:__PiBegin([string]$Nonce, [string]$Encoded) {
+	$global:__PiState = @{ Watch = [System.Diagnostics.Stopwatch]::StartNew(); Ok = $false }
+	$global:LASTEXITCODE = $null
+	$command = [System.Text.Encoding]::UTF8.GetString([Convert]::FromBase64String($Encoded))
+	try {
+		[scriptblock]::Create("$command\`n\`$global:__PiState.Ok = \`$?")
+	} catch {
+		__PiWrite $Nonce 'error' $_.Exception.Message
+	}
+}
+filter global:__PiRoute([string]$Nonce) {
+	if ($_ -is [System.Management.Automation.ErrorRecord]) {
+		$text = if ($_.FullyQualifiedErrorId -like 'NativeCommandError*') { "$_" } else { ($_ | Out-String).TrimEnd() }
+		__PiWrite $Nonce 'error' $text
+	} elseif ($_ -is [System.Management.Automation.WarningRecord]) {
+		__PiWrite $Nonce 'warning' $_.Message
+	} elseif ($_ -is [System.Management.Automation.VerboseRecord]) {
+		__PiWrite $Nonce 'verbose' $_.Message
+	} elseif ($_ -is [System.Management.Automation.DebugRecord]) {
+		__PiWrite $Nonce 'debug' $_.Message
+	} elseif ($_ -is [System.Management.Automation.InformationRecord]) {
+		__PiWrite $Nonce 'information' "$($_.MessageData)"
+	} else {
+		$_
+	}
+}
+filter global:__PiOut([string]$Nonce) {
+	__PiWrite $Nonce 'output' $_
+}
+$global:__PiWatcher = [runspacefactory]::CreateRunspace()
+$global:__PiWatcher.Open()
+function global:__PiWatch([string]$StopFile, [powershell]$Pipeline) {
+	$watch = [powershell]::Create()
+	$watch.Runspace = $global:__PiWatcher
+	[void]$watch.AddScript('param($file, $pipeline) while (-not [System.IO.File]::Exists($file)) { Start-Sleep -Milliseconds 50 }; [void]$pipeline.BeginStop($null, $null)').AddArgument($StopFile).AddArgument($Pipeline)
+	[void]$watch.BeginInvoke()
+	$watch
+}
+function global:__PiUnwatch([powershell]$Watch, [string]$StopFile) {
+	$Watch.Stop()
+	$Watch.Dispose()
+	[System.IO.File]::Delete($StopFile)
+}
+function global:__PiEnd([string]$Nonce) {
+	$end = @{ success = [bool]$global:__PiState.Ok; exitCode = $global:LASTEXITCODE; durationMs = [int]$global:__PiState.Watch.Elapsed.TotalMilliseconds; location = "$(Get-Location)" }
+	__PiWrite $Nonce 'end' (ConvertTo-Json -InputObject $end -Compress)
+}
+`;
+
+export function createNonce(): string {
+	return randomBytes(8).toString('hex');
+}
+
+/** PowerShell source run as a single line: base64 avoids quoting and multi-line stdin quirks */
+function encodedLine(script: string): string {
+	return Buffer.from(script, 'utf8').toString('base64');
+}
+
+/** The line that loads SESSION_PRELUDE and reports readiness with `nonce` */
+export function preludeLine(nonce: string): string {
+	const load = `. ([scriptblock]::Create([System.Text.Encoding]::UTF8.GetString([Convert]::FromBase64String('${encodedLine(SESSION_PRELUDE)}'))))`;
+	return `${load}; __PiWrite '${nonce}' 'ready' ''\n`;
+}
+
+/** Creating this file stops the command framed with `nonce` */
+export function stopFilePath(nonce: string): string {
+	return join(tmpdir(), `pi-stop-${nonce}`);
+}
+
+/**
+ * The stdin line that runs `command` framed with `nonce`. A terminating error is
+ * caught and reported, so the 'end' record is always written — also after a stop.
+ * The nested pipeline is invoked from the line itself, not a function, so the
+ * dot-sourced command still runs at global scope.
+ */
+export function frameCommand(nonce: string, command: string): string {
+	const stopFile = `'${stopFilePath(nonce).replace(/'/g, "''")}'`;
+	const run = `try { . $__piBlock *>&1 | __PiRoute '${nonce}' | Out-String -Stream | __PiOut '${nonce}' } catch { $_ | __PiRoute '${nonce}' }`;
+	return `$__piBlock = __PiBegin '${nonce}' '${encodedLine(command)}'; `
+		+ `if ($__piBlock) { $__piPipe = [powershell]::Create([System.Management.Automation.RunspaceMode]::CurrentRunspace); `
+		+ `[void]$__piPipe.AddScript('${run.replace(/'/g, "''")}', $false); $__piWatch = __PiWatch ${stopFile} $__piPipe; `
+		+ `try { [void]$__piPipe.Invoke() } `
+		+ `catch { if ($_.Exception.InnerException -isnot [System.Management.Automation.PipelineStoppedException]) { $_ | __PiRoute '${nonce}' } } `
+		+ `finally { __PiUnwatch $__piWatch ${stopFile}; $__piPipe.Dispose() } }; __PiEnd '${nonce}'\n`;
+}
+
+/** Length of the longest suffix of `buffer` that is a prefix of `marker` */
+function partialMarker(buffer: Buffer, marker: Buffer): number {
+	for (let k = Math.min(marker.length - 1, buffer.length); k > 0; k--) {
+		if (buffer.subarray(buffer.length - k).equals(marker.subarray(0, k))) return k;
+	}
+	return 0;
+}
+
+/** Splits a session's stdout bytes into the records of one command and raw output */
+export class FrameReader {
+	private buffer: Buffer = Buffer.alloc(0);
+	private decoder = new StringDecoder('utf8');
+
+	constructor(private readonly nonce: string) {}
+
+	push(chunk: Buffer): FrameEvent[] {
+		this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+		const events: FrameEvent[] = [];
+		const raw = (bytes: Buffer) => {
+			const text = this.decoder.write(bytes);
+			if (text) events.push({ type: 'raw', data: text });
+		};
+
+		while (this.buffer.length > 0) {
+			const start = this.buffer.indexOf(MARKER_BYTES);
+			if (start === -1) {
+				// Hold back what could be the start of a marker split across chunks
+				const keep = partialMarker(this.buffer, MARKER_BYTES);
+				raw(this.buffer.subarray(0, this.buffer.length - keep));
+				this.buffer = this.buffer.subarray(this.buffer.length - keep);
+				break;
+			}
+			if (start > 0) {
+				raw(this.buffer.subarray(0, start));
+				this.buffer = this.buffer.subarray(start);
+				continue;
+			}
+
+			const newline = this.buffer.indexOf(10, MARKER_BYTES.length);
+			if (newline === -1 && this.buffer.length < MARKER_BYTES.length + MAX_HEADER) break;
+			const header = newline === -1 ? '' : this.buffer.subarray(MARKER_BYTES.length, newline).toString('latin1');
+			const m = /^([0-9a-f]+) ([a-z]+) (\d+)$/.exec(header);
+			if (!m || !FRAME_TYPES.has(m[2])) {
+				// Not a record after all: pass the marker byte through as output
+				raw(this.buffer.subarray(0, 1));
+				this.buffer = this.buffer.subarray(1);
+				continue;
+			}
+
+			const end = newline + 1 + Number(m[3]);
+			if (this.buffer.length < end + 1) break;
+			// Records of another (earlier, timed-out) command are dropped
+			if (m[1] === this.nonce) {
+				events.push({ type: m[2] as FrameType, data: this.buffer.subarray(newline + 1, end).toString('utf8') });
+			}
+			this.buffer = this.buffer.subarray(end + 1);
+		}
+		return events;
+	}
+}
+
+/** Assembles one command's records into console-like stdout/stderr plus per-stream lists */
+export class FrameCollector {
+	private stdout = '';
+	readonly streams: SessionStreams = { error: [], warning: [], verbose: [], debug: [], information: [] };
+	end?: FrameEnd;
+
+	add(event: FrameEvent): void {
+		switch (event.type) {
+			case 'raw': this.stdout += event.data; break;
+			case 'output': this.stdout += `${event.data}\n`; break;
+			case 'information': this.streams.information.push(event.data); this.stdout += `${event.data}\n`; break;
+			case 'warning': this.streams.warning.push(event.data); this.stdout += `WARNING: ${event.data}\n`; break;
+			case 'verbose': this.streams.verbose.push(event.data); this.stdout += `VERBOSE: ${event.data}\n`; break;
+			case 'debug': this.streams.debug.push(event.data); this.stdout += `DEBUG: ${event.data}\n`; break;
+			case 'error': this.streams.error.push(event.data); break;
+			case 'end': this.end = parseEnd(event.data); break;
+		}
+	}
+
+	get output(): { stdout: string; stderr: string } {
+		return { stdout: this.stdout.trim(), stderr: this.streams.error.join('\n').trim() };
+	}
+}
+
+function parseEnd(data: string): FrameEnd {
+	try {
+		const end = JSON.parse(data) as Partial<FrameEnd>;
+		return {
+			success: end.success === true,
+			exitCode: typeof end.exitCode === 'number' ? end.exitCode : null,
+			durationMs: end.durationMs ?? 0,
+			location: typeof end.location === 'string' && end.location ? end.location : undefined,
+		};
+	} catch {
+		return { success: false, exitCode: null, durationMs: 0 };
+	}
+}
@@ -0,0 +1,99 @@
+/**
+ * Scripts run by the local host process behind a remote session.
+ *
+ * The host owns one PSSession in $global:__PiRemote for the session's whole life, so
+ * remote variables and modules persist between commands. Every command first calls
+ * __PiRemoteOpen, which reuses the open PSSession, reconnects a disconnected one and
+ * replaces a broken one (with a warning, since the remote state is gone).
+ * The credential is built once, when the host starts (see credentials.ts).
+ */
+
+import type { PSSessionOptions, SessionTransport } from "./session-manager.js";
+import { credentialScript } from "./credentials.js";
+
+function psQuote(value: string): string {
+	return `'${value.replace(/'/g, "''")}'`;
+}
+
+function encoded(script: string): string {
+	return `[System.Text.Encoding]::UTF8.GetString([Convert]::FromBase64String('${Buffer.from(script, 'utf8').toString('base64')}'))`;
+}
+
+/** New-PSSession parameters for SSH: -HostName and friends */
+function sshParameters(name: string, hostName: string, options: PSSessionOptions): string[] {
+	const params = [`Name = ${psQuote(name)}`, `HostName = ${psQuote(hostName)}`, `ErrorAction = 'Stop'`];
+	if (options.userName) params.push(`UserName = ${psQuote(options.userName)}`);
+	if (options.keyFilePath) params.push(`KeyFilePath = ${psQuote(options.keyFilePath)}`);
+	if (options.subsystem) params.push(`Subsystem = ${psQuote(options.subsystem)}`);
+	if (options.port) params.push(`Port = ${Math.trunc(options.port)}`);
+	return params;
+}
+
+/** New-PSSession parameters for WinRM, as PowerShell hashtable entries */
+function sessionParameters(name: string, computerName: string, options: PSSessionOptions, withCredential: boolean): string[] {
+	const params = [`Name = ${psQuote(name)}`, `ComputerName = ${psQuote(computerName)}`, `ErrorAction = 'Stop'`];
+	if (withCredential) params.push(`Credential = $global:__PiCredential`);
+	if (options.authentication) params.push(`Authentication = ${psQuote(options.authentication)}`);
+	if (options.port) params.push(`Port = ${Math.trunc(options.port)}`);
+	if (options.useSSL) params.push(`UseSSL = $true`);
+	if (options.timeout) params.push(`SessionOption = New-PSSessionOption -OpenTimeout ${Math.trunc(options.timeout)}`);
+	return params;
+}
+
+/**
+ * Builds the credential and defines __PiRemoteOpen in the host; run once after the host
+ * starts. Throws CredentialError when the options name a user but no credential source.
+ */
+export function remoteSetupScript(name: string, computerName: string, options: PSSessionOptions = {}, transport: SessionTransport = 'wsman'): string {
+	const credential = transport === 'wsman' ? credentialScript(options.credentialSource, options.credential) : undefined;
+	const params = transport === 'ssh'
+		? sshParameters(name, computerName, options)
+		: sessionParameters(name, computerName, options, credential !== undefined);
+	const open = `function global:__PiRemoteOpen {
+	$current = $global:__PiRemote
+	if ($current -and $current.State -eq 'Opened') { return }
+	if ($current -and $current.State -eq 'Disconnected') {
+		try {
+			$global:__PiRemote = Connect-PSSession -Session $current -ErrorAction Stop
+			return
+		} catch { }
+	}
+	if ($current) {
+		Remove-PSSession -Session $current -ErrorAction SilentlyContinue
+		Write-Warning ${psQuote(`Connection to ${computerName} was lost and has been re-established; remote variables and modules from earlier commands are gone`)}
+	}
+	$params = @{
+		${params.join('\n\t\t')}
+	}
+	$global:__PiRemote = New-PSSession @params
+}`;
+	return credential ? `${credential}\n${open}` : open;
+}
+
+/** Runs `command` in the host's PSSession, opening or repairing it first */
+export function remoteCommand(command: string): string {
+	return `__PiRemoteOpen\nInvoke-Command -Session $global:__PiRemote -ScriptBlock ([scriptblock]::Create(${encoded(command)}))`;
+}
+
+/** Removes the host's PSSession on the target; run before the host exits */
+export const REMOTE_CLOSE = `if ($global:__PiRemote) { Remove-PSSession -Session $global:__PiRemote -ErrorAction SilentlyContinue; $global:__PiRemote = $null }`;
+
+/**
+ * Reports the PSSession's state without opening or repairing it: NotOpened, Opened,
+ * Broken, Disconnected, Closed — or Unresponsive when a trivial remote call doesn't
+ * finish within `timeoutSeconds`. Runs as a job so a dead network can't hang the host.
+ * An answering session's remote location comes first, on a line of its own.
+ */
+export function remoteProbe(timeoutSeconds: number): string {
+	return `$s = $global:__PiRemote
+if (-not $s) { 'NotOpened' }
+elseif ($s.State -ne 'Opened') { "$($s.State)" }
+else {
+	$job = Invoke-Command -Session $s -ScriptBlock { "$PWD" } -AsJob
+	$done = Wait-Job -Job $job -Timeout ${Math.max(1, Math.ceil(timeoutSeconds))}
+	if (-not $done) { Stop-Job -Job $job }
+	$location = if ($done) { Receive-Job -Job $job -ErrorAction SilentlyContinue }
+	Remove-Job -Job $job -Force
+	if ($done) { $location; "$($s.State)" } else { 'Unresponsive' }
+}`;
+}
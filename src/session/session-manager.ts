@@ -4,27 +4,106 @@
 
 import { spawn, ChildProcess } from "child_process";
 import { EventEmitter } from "events";
+import { rm, writeFile } from "fs/promises";
+import { StringDecoder } from "string_decoder";
+import { killProcessTree } from "../process/process-tree.js";
+import { formatDuration } from "../jobs/job-registry.js";
+import { resolveHost, type PowerShellEdition, type PowerShellHost } from "../process/powershell-host.js";
+import { FrameReader, FrameCollector, createNonce, frameCommand, preludeLine, stopFilePath, type FrameEvent, type SessionStreams } from "./framing.js";
+import { remoteSetupScript, remoteCommand, remoteProbe, REMOTE_CLOSE } from "./remote.js";
+import { CredentialError, PROMPTED_PASSWORD_VARIABLE, credentialScript, type CredentialSource } from "./credentials.js";
+import { parseTransferLine, transferScript, type TransferProgress, type TransferRequest, type TransferSummary } from "./transfer.js";
+
+/** How a remote session connects: WinRM (New-PSSession -ComputerName) or SSH (-HostName) */
+export type SessionTransport = 'wsman' | 'ssh';
 
 export interface PSSessionOptions {
+	/** Default: 'ssh' when hostName is given, otherwise 'wsman' */
+	transport?: SessionTransport;
+	/** WinRM target */
 	computerName?: string;
+	/** User name for remote authentication */
 	credential?: string;
+	/** Where the password (or the whole credential) comes from */
+	credentialSource?: CredentialSource;
 	authentication?: 'Default' | 'Kerberos' | 'Certificate' | 'Basic' | 'Negotiate';
 	port?: number;
 	useSSL?: boolean;
 	timeout?: number;
+	/** Local PowerShell edition that runs the session (default: configured host) */
+	edition?: PowerShellEdition;
+	/** SSH target */
+	hostName?: string;
+	/** SSH user (default: the current user, or user@ in hostName) */
+	userName?: string;
+	/** SSH private key; other authentication goes through ssh's own config and agent */
+	keyFilePath?: string;
+	/** SSH subsystem that starts PowerShell on the target (default: powershell) */
+	subsystem?: string;
+	/** Labels for picking sessions with `tag:<tag>` in the powershell tool's `sessions` */
+	tags?: string[];
 }
 
 export interface PSSessionInfo {
 	name: string;
 	id: string;
 	state: 'Connected' | 'Disconnected' | 'Connecting' | 'Failed';
+	/** Remote machine (the SSH host name for SSH sessions), 'localhost' for local sessions */
 	computerName: string;
+	/** Remote sessions only */
+	transport?: SessionTransport;
 	runspaceId?: string;
 	configurationName?: string;
 	createdAt: Date;
 	lastUsed: Date;
 	isLocal: boolean;
 	options?: PSSessionOptions;
+	/** Local PowerShell executable behind the session, resolved at creation */
+	host?: PowerShellHost;
+	/** Last health check (heartbeat or checkSession) */
+	lastChecked?: Date;
+	/** Round trip of the last health check */
+	latencyMs?: number;
+	/** Commands run through executeInSession (health checks don't count) */
+	commandCount: number;
+	/** Current location: after each command for local sessions, from health checks for remote ones */
+	location?: string;
+}
+
+export interface SessionHealth {
+	name: string;
+	state: PSSessionInfo['state'];
+	/** Round trip through the session's host — and to the target, for remote sessions */
+	latencyMs?: number;
+	/** PSSession state reported by PowerShell (Opened, Broken, Disconnected, NotOpened, Unresponsive) */
+	remoteState?: string;
+	location?: string;
+	/** The check restored the session */
+	reconnected?: boolean;
+	/** Reconnecting lost the session's variables, modules and location */
+	stateLost?: boolean;
+	error?: string;
+	checkedAt: Date;
+}
+
+export interface HealthCheckOptions {
+	/** Default: 10000ms */
+	timeout?: number;
+	/** Open a remote session's connection if no command has yet */
+	connect?: boolean;
+	/** Restart a dead host or repair a broken remote connection */
+	reconnect?: boolean;
+}
+
+export interface HeartbeatPolicy {
+	/** Milliseconds between checks of idle sessions; 0 turns the heartbeat off */
+	intervalMs: number;
+	/** Reconnect sessions the heartbeat finds disconnected */
+	autoReconnect: boolean;
+	/** Attempts before a session is marked Failed */
+	maxAttempts: number;
+	/** Delay before the first attempt; doubles after each failed one */
+	backoffMs: number;
 }
 
 export interface SessionResult {
@@ -32,47 +111,150 @@ export interface SessionResult {
 	stderr: string;
 	success: boolean;
 	sessionInfo: PSSessionInfo;
+	/** Aborted by the caller; stdout/stderr hold the partial output */
+	cancelled?: boolean;
+	/** Stopped at the timeout; stdout/stderr hold the partial output */
+	timedOut?: boolean;
+	/** $LASTEXITCODE after the command, null when no native command ran (always null for remote sessions) */
+	exitCode?: number | null;
+	/** Run time measured by the session's host */
+	durationMs?: number;
+	/** Error, warning, verbose, debug and information records */
+	streams?: SessionStreams;
+	/** The session's process was replaced to stop the command; its state is gone */
+	recycled?: boolean;
+}
+
+export interface TransferOptions {
+	/** Default: 5 minutes */
+	timeout?: number;
+	signal?: AbortSignal;
+	/** Called after each file is copied */
+	onProgress?: (progress: TransferProgress) => void;
+	onQueued?: QueueCallback;
+}
+
+/** The host's SessionResult, plus the copy's summary when the script got that far */
+export interface TransferResult extends SessionResult {
+	summary?: TransferSummary;
+}
+
+/** Called while a command waits, with the number of commands ahead of it (running one included) */
+export type QueueCallback = (ahead: number) => void;
+
+interface QueuedCommand {
+	run: () => Promise<SessionResult>;
+	onQueued?: QueueCallback;
+	/** Detaches the queued-cancellation listener once the command starts */
+	start: () => void;
+	resolve: (result: SessionResult) => void;
+	reject: (error: Error) => void;
+}
+
+interface ManagedSession {
+	info: PSSessionInfo;
+	/** Local pwsh that runs the commands; for remote sessions it owns the PSSession */
+	process?: ChildProcess;
+	connected: boolean;
+	/** Set by closeSession, so an interrupted command doesn't restart the host */
+	closing?: boolean;
+	/** Prompted password, handed to every host this session starts; never part of `info` */
+	password?: string;
+	/** Commands waiting for the running one, oldest first */
+	commandQueue: QueuedCommand[];
+	running: boolean;
+	/** Interrupts the command running in the host; resolves once it has finished */
+	stopCommand?: () => Promise<void>;
+	/** A host was started at some point; remote sessions start theirs on first use */
+	hostStarted?: boolean;
+	/** Set while recycleSession takes the old host down */
+	recycling?: Promise<void>;
+	reconnectTimer?: NodeJS.Timeout;
+	reconnectAttempts: number;
+	idleTimer?: NodeJS.Timeout;
+}
+
+/** Options that only one transport's New-PSSession parameter set has */
+const WSMAN_ONLY_OPTIONS = ['computerName', 'credential', 'credentialSource', 'authentication', 'useSSL'] as const;
+const SSH_ONLY_OPTIONS = ['hostName', 'userName', 'keyFilePath', 'subsystem'] as const;
+
+function validateTransportOptions(name: string, transport: SessionTransport, options: PSSessionOptions, host: PowerShellHost): void {
+	if (transport === 'wsman') {
+		if (!options.computerName) {
+			throw new Error(`Session '${name}': WinRM transport needs a computerName`);
+		}
+		const ssh = SSH_ONLY_OPTIONS.filter(key => options[key] !== undefined);
+		if (ssh.length > 0) {
+			throw new Error(`Session '${name}': ${ssh.join(', ')} only apply to SSH sessions (transport: 'ssh')`);
+		}
+		return;
+	}
+	if (!options.hostName) {
+		throw new Error(`Session '${name}': SSH transport needs a hostName`);
+	}
+	const wsman = WSMAN_ONLY_OPTIONS.filter(key => options[key] !== undefined);
+	if (wsman.length > 0) {
+		throw new Error(`Session '${name}': ${wsman.join(', ')} only apply to WinRM sessions — SSH sessions authenticate with keyFilePath or ssh's own config and agent`);
+	}
+	if (host.edition !== 'core') {
+		throw new Error(`Session '${name}': SSH transport needs PowerShell 7, but the session host is ${host.path}`);
+	}
+}
+
+/** How long an interrupted command gets to stop before its session is recycled */
+const INTERRUPT_GRACE_MS = 2000;
+
+/** How long a remote host gets to remove its PSSession before it is closed or killed */
+const REMOTE_CLOSE_TIMEOUT_MS = 5000;
+
+const MAX_RECONNECT_DELAY_MS = 5 * 60 * 1000;
+
+/** PSSession states, as the probe reports them, mapped onto PSSessionInfo.state */
+function stateFromProbe(remoteState: string): PSSessionInfo['state'] {
+	return remoteState === 'Opened' ? 'Connected' : remoteState === 'NotOpened' ? 'Connecting' : 'Disconnected';
 }
 
 /**
  * Manages persistent PowerShell sessions for local and remote execution
  */
 export class PowerShellSessionManager extends EventEmitter {
-	private sessions = new Map<string, {
-		info: PSSessionInfo;
-		process?: ChildProcess;
-		connected: boolean;
-		commandQueue: Array<{
-			command: string;
-			resolve: (result: SessionResult) => void;
-			reject: (error: Error) => void;
-		}>;
-	}>();
-
-	private commandId = 0;
+	private sessions = new Map<string, ManagedSession>();
+	private heartbeat: HeartbeatPolicy = { intervalMs: 0, autoReconnect: false, maxAttempts: 5, backoffMs: 2000 };
+	private heartbeatTimer?: NodeJS.Timeout;
+	private idleTimeoutMs = 0;
+	/** Sessions closed by the idle timeout, so a later command can say why they're gone */
+	private expired = new Map<string, number>();
 
 	constructor() {
 		super();
 	}
 
 	/**
-	 * Create a new PowerShell session
+	 * Create a new PowerShell session. `password` is required for credentialSource 'prompt'
+	 * and is only kept in memory.
 	 */
-	async createSession(name: string, options: PSSessionOptions = {}): Promise<PSSessionInfo> {
+	async createSession(name: string, options: PSSessionOptions = {}, password?: string): Promise<PSSessionInfo> {
 		if (this.sessions.has(name)) {
 			throw new Error(`Session '${name}' already exists`);
 		}
 
-		const isLocal = !options.computerName;
+		const transport = options.transport ?? (options.hostName ? 'ssh' : 'wsman');
+		const target = transport === 'ssh' ? options.hostName : options.computerName;
+		const isLocal = !target && !options.transport;
+		const host = await resolveHost(options.edition);
+		if (!isLocal) validateTransportOptions(name, transport, options, host);
 		const sessionInfo: PSSessionInfo = {
 			name,
 			id: this.generateSessionId(),
 			state: 'Connecting',
-			computerName: options.computerName || 'localhost',
+			computerName: target || 'localhost',
+			transport: isLocal ? undefined : transport,
 			createdAt: new Date(),
 			lastUsed: new Date(),
 			isLocal,
-			options
+			options,
+			host,
+			commandCount: 0,
 		};
 
 		if (isLocal) {
@@ -80,28 +262,292 @@ export class PowerShellSessionManager extends EventEmitter {
 			await this.createLocalSession(name, sessionInfo);
 		} else {
 			// Create remote PSSession
-			await this.createRemoteSession(name, sessionInfo, options);
+			await this.createRemoteSession(name, sessionInfo, options, password);
 		}
 
+		this.expired.delete(name);
+		const session = this.sessions.get(name);
+		if (session) this.armIdleTimer(session);
 		return sessionInfo;
 	}
 
 	/**
-	 * Execute command in a specific session
+	 * Execute command in a specific session. Commands run one at a time in arrival order;
+	 * `onQueued` reports the position of a command that has to wait. Aborting the signal
+	 * drops a queued command, or kills the processes a running one launched and returns
+	 * the output gathered so far. A local command that still doesn't stop gets its
+	 * session recycled (see SessionResult.recycled).
 	 */
-	async executeInSession(sessionName: string, command: string, timeout: number = 30000): Promise<SessionResult> {
-		const session = this.sessions.get(sessionName);
-		if (!session) {
-			throw new Error(`Session '${sessionName}' not found`);
+	async executeInSession(sessionName: string, command: string, timeout: number = 30000, signal?: AbortSignal, onQueued?: QueueCallback): Promise<SessionResult> {
+		const session = this.requireSession(sessionName);
+
+		if (signal?.aborted) {
+			return { stdout: '', stderr: 'Command cancelled before it started', success: false, sessionInfo: { ...session.info }, cancelled: true };
 		}
 
-		session.info.lastUsed = new Date();
+		return this.enqueue(session, () => this.trackUse(session, () => session.info.isLocal
+			? this.executeInHost(session, command, timeout, signal)
+			: this.executeInRemoteSession(session, command, timeout, signal)
+		), signal, onQueued);
+	}
 
+	/**
+	 * Copy files between this machine and a remote session's target (see transfer.ts).
+	 * Queued and cancelled like a command, and counts as use of the session.
+	 */
+	async transferFiles(sessionName: string, request: TransferRequest, options: TransferOptions = {}): Promise<TransferResult> {
+		const session = this.requireSession(sessionName);
 		if (session.info.isLocal) {
-			return await this.executeInLocalSession(session, command, timeout);
-		} else {
-			return await this.executeInRemoteSession(session, command, timeout);
+			throw new Error(`Session '${sessionName}' is local; files can only be copied to and from remote sessions`);
+		}
+		const { timeout = 300000, signal, onProgress, onQueued } = options;
+		if (signal?.aborted) {
+			return { stdout: '', stderr: 'Copy cancelled before it started', success: false, sessionInfo: { ...session.info }, cancelled: true };
+		}
+
+		const onEvent = (event: FrameEvent) => {
+			if (event.type !== 'output' || !onProgress) return;
+			const line = parseTransferLine(event.data);
+			if (line?.type === 'progress') onProgress(line.progress);
+		};
+		const result = await this.enqueue(session, () => this.trackUse(session, async () => {
+			if (!session.process || !session.connected) {
+				await this.startRemoteHost(session);
+			}
+			const copied = await this.executeInHost(session, transferScript(request), timeout, signal, onEvent);
+			if (copied.success && session.connected) session.info.state = 'Connected';
+			return copied;
+		}), signal, onQueued);
+
+		let summary: TransferSummary | undefined;
+		for (const line of result.stdout.split(/\r?\n/)) {
+			const parsed = parseTransferLine(line);
+			if (parsed?.type === 'result') summary = parsed.summary;
+		}
+		return { ...result, summary };
+	}
+
+	private requireSession(name: string): ManagedSession {
+		const session = this.sessions.get(name);
+		if (session) return session;
+		const idleMs = this.expired.get(name);
+		if (idleMs !== undefined) {
+			throw new Error(`Session '${name}' was closed after ${formatDuration(idleMs)} unused; create it again to keep using it`);
+		}
+		throw new Error(`Session '${name}' not found`);
+	}
+
+	/** Run something the agent asked for: it counts as use, and restarts the idle countdown */
+	private trackUse(session: ManagedSession, run: () => Promise<SessionResult>): Promise<SessionResult> {
+		session.info.lastUsed = new Date();
+		session.info.commandCount++;
+		return run().finally(() => {
+			session.info.lastUsed = new Date();
+			this.armIdleTimer(session);
+		});
+	}
+
+	/**
+	 * Close sessions that go unused for `timeoutMs` (0 turns this off), emitting
+	 * 'sessionExpired' first. Health checks don't count as use.
+	 */
+	configureIdleTimeout(timeoutMs: number): void {
+		this.idleTimeoutMs = timeoutMs;
+		for (const session of this.sessions.values()) this.armIdleTimer(session);
+	}
+
+	/** (Re)start the idle countdown from the session's lastUsed */
+	private armIdleTimer(session: ManagedSession): void {
+		if (session.idleTimer) clearTimeout(session.idleTimer);
+		session.idleTimer = undefined;
+		if (this.idleTimeoutMs <= 0 || session.closing) return;
+		const remaining = session.info.lastUsed.getTime() + this.idleTimeoutMs - Date.now();
+		session.idleTimer = setTimeout(() => void this.expire(session), Math.max(0, remaining));
+		session.idleTimer.unref();
+	}
+
+	private async expire(session: ManagedSession): Promise<void> {
+		session.idleTimer = undefined;
+		if (session.closing || this.sessions.get(session.info.name) !== session) return;
+		// A long command may still be running, or others waiting; they count as use
+		if (session.running || session.commandQueue.length > 0) {
+			session.info.lastUsed = new Date();
+			this.armIdleTimer(session);
+			return;
+		}
+		const idleMs = Date.now() - session.info.lastUsed.getTime();
+		if (idleMs < this.idleTimeoutMs) {
+			this.armIdleTimer(session);
+			return;
+		}
+		this.expired.set(session.info.name, idleMs);
+		this.emit('sessionExpired', { ...session.info }, idleMs);
+		await this.closeSession(session.info.name).catch(() => undefined);
+	}
+
+	/** Queue `run` behind the session's other commands; a queued entry can be aborted */
+	private enqueue(session: ManagedSession, run: () => Promise<SessionResult>, signal?: AbortSignal, onQueued?: QueueCallback): Promise<SessionResult> {
+		return new Promise((resolve, reject) => {
+			const onQueuedAbort = () => {
+				const index = session.commandQueue.indexOf(entry);
+				if (index === -1) return;
+				session.commandQueue.splice(index, 1);
+				this.reportQueue(session);
+				resolve({ stdout: '', stderr: 'Command cancelled while queued; it never ran', success: false, sessionInfo: { ...session.info }, cancelled: true });
+			};
+			const entry: QueuedCommand = {
+				run, onQueued, resolve, reject,
+				start: () => signal?.removeEventListener('abort', onQueuedAbort),
+			};
+			signal?.addEventListener('abort', onQueuedAbort, { once: true });
+			session.commandQueue.push(entry);
+			if (session.running) this.reportQueue(session);
+			this.runNext(session);
+		});
+	}
+
+	/** Start the oldest queued command if the session is idle */
+	private runNext(session: ManagedSession): void {
+		if (session.running) return;
+		const next = session.commandQueue.shift();
+		if (!next) return;
+		next.start();
+		this.reportQueue(session);
+
+		session.running = true;
+		next.run().then(next.resolve, next.reject).finally(() => {
+			session.running = false;
+			this.runNext(session);
+		});
+	}
+
+	/** Tell every waiting command how many commands are ahead of it */
+	private reportQueue(session: ManagedSession): void {
+		session.commandQueue.forEach((entry, index) => entry.onQueued?.(index + 1));
+	}
+
+	/**
+	 * Check that a session still answers, and update its state. Runs in the session's
+	 * queue, so it waits for a running command. Without `reconnect` it only observes:
+	 * a dead host or broken remote connection is reported, not repaired.
+	 */
+	async checkSession(name: string, options: HealthCheckOptions = {}): Promise<SessionHealth> {
+		const session = this.sessions.get(name);
+		if (!session) {
+			throw new Error(`Session '${name}' not found`);
+		}
+
+		const before = session.info.state;
+		const health = await this.enqueue(session, () => this.probe(session, options))
+			.then(result => this.healthFrom(session, result))
+			.catch((error): SessionHealth => ({ name, state: session.info.state, error: error instanceof Error ? error.message : String(error), checkedAt: new Date() }));
+
+		session.info.state = health.state;
+		session.info.lastChecked = health.checkedAt;
+		session.info.latencyMs = health.latencyMs;
+		if (health.location) session.info.location = health.location;
+		if (health.state === 'Connected') session.reconnectAttempts = 0;
+		if (health.state === 'Disconnected' && before !== 'Disconnected' && !session.closing) {
+			this.emit('sessionDisconnected', { ...session.info });
+		}
+		if (health.reconnected) {
+			this.emit('sessionReconnected', { ...session.info }, health.stateLost === true);
+		}
+		if (health.state === 'Disconnected' && !options.reconnect) this.scheduleReconnect(session);
+		return health;
+	}
+
+	/** Round trip through the session's host; the SessionResult's stdout is the remote state */
+	private async probe(session: ManagedSession, options: HealthCheckOptions): Promise<SessionResult> {
+		const timeout = options.timeout ?? 10000;
+		const info = () => ({ ...session.info });
+		let restarted = false;
+
+		if (!session.process || !session.connected) {
+			if (!session.info.isLocal && !session.hostStarted && (options.connect || options.reconnect)) {
+				await this.startRemoteHost(session);
+			} else if (session.hostStarted && options.reconnect) {
+				await this.recycleSession(session);
+				restarted = true;
+			} else if (!session.hostStarted) {
+				return { stdout: 'NotOpened', stderr: '', success: true, sessionInfo: info() };
+			} else {
+				return { stdout: '', stderr: 'The session host is not running', success: false, sessionInfo: info() };
+			}
+		}
+
+		const connect = !session.info.isLocal && (options.connect || options.reconnect);
+		const script = session.info.isLocal ? `"$(Get-Location)"\n'Opened'` : `${connect ? '__PiRemoteOpen\n' : ''}${remoteProbe(timeout / 1000)}`;
+		const started = Date.now();
+		const result = await this.executeInHost(session, script, timeout + 5000);
+		return { ...result, durationMs: Date.now() - started, recycled: restarted || undefined };
+	}
+
+	private healthFrom(session: ManagedSession, result: SessionResult): SessionHealth {
+		const checkedAt = new Date();
+		const lines = result.stdout.split(/\r?\n/).map(line => line.trim());
+		const remoteState = lines.pop() ?? '';
+		const location = lines.pop() || undefined;
+		if (!result.success || !remoteState) {
+			return { name: session.info.name, state: 'Disconnected', error: result.stderr || 'No answer from the session', checkedAt };
+		}
+		const state = stateFromProbe(remoteState);
+		// __PiRemoteOpen warns when it had to replace the PSSession
+		const replaced = (result.streams?.warning.length ?? 0) > 0;
+		return {
+			name: session.info.name,
+			state,
+			latencyMs: state === 'Connected' ? result.durationMs : undefined,
+			remoteState: session.info.isLocal ? undefined : remoteState,
+			location: state === 'Connected' ? location : undefined,
+			reconnected: result.recycled || replaced || undefined,
+			stateLost: result.recycled || replaced || undefined,
+			error: state === 'Disconnected' ? `Remote session is ${remoteState}` : undefined,
+			checkedAt,
+		};
+	}
+
+	/**
+	 * Start (or, with intervalMs 0, stop) checking idle sessions periodically. With
+	 * autoReconnect, a session found disconnected is reconnected with exponential backoff.
+	 */
+	configureHeartbeat(policy: Partial<HeartbeatPolicy>): void {
+		this.heartbeat = { ...this.heartbeat, ...policy };
+		if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+		this.heartbeatTimer = undefined;
+		if (this.heartbeat.intervalMs > 0) {
+			this.heartbeatTimer = setInterval(() => void this.beat(), this.heartbeat.intervalMs);
+			// Never keep pi alive just to check sessions
+			this.heartbeatTimer.unref();
+		}
+	}
+
+	/** One heartbeat: check every idle session that has a host to check */
+	private async beat(): Promise<void> {
+		const idle = Array.from(this.sessions.values()).filter(s =>
+			s.hostStarted && !s.running && s.commandQueue.length === 0 && !s.closing && !s.reconnectTimer && s.info.state !== 'Failed');
+		await Promise.all(idle.map(s => this.checkSession(s.info.name).catch(() => undefined)));
+	}
+
+	/** Try to reconnect after a backoff delay, if the policy allows */
+	private scheduleReconnect(session: ManagedSession): void {
+		const { autoReconnect, maxAttempts, backoffMs } = this.heartbeat;
+		if (!autoReconnect || session.closing || session.reconnectTimer) return;
+		if (session.reconnectAttempts >= maxAttempts) {
+			session.info.state = 'Failed';
+			this.emit('sessionError', { ...session.info }, new Error(`Gave up reconnecting after ${maxAttempts} attempt(s)`));
+			return;
 		}
+		const delay = Math.min(backoffMs * 2 ** session.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+		session.reconnectAttempts++;
+		session.reconnectTimer = setTimeout(() => {
+			session.reconnectTimer = undefined;
+			if (session.closing) return;
+			void this.checkSession(session.info.name, { reconnect: true }).then(health => {
+				if (health.state !== 'Connected') this.scheduleReconnect(session);
+			}, () => this.scheduleReconnect(session));
+		}, delay);
+		session.reconnectTimer.unref();
 	}
 
 	/**
@@ -127,17 +573,27 @@ export class PowerShellSessionManager extends EventEmitter {
 			return;
 		}
 
+		for (const entry of session.commandQueue.splice(0)) {
+			entry.start();
+			entry.reject(new Error(`Session '${name}' was closed before the command ran`));
+		}
+
+		session.closing = true;
+		if (session.reconnectTimer) clearTimeout(session.reconnectTimer);
+		if (session.idleTimer) clearTimeout(session.idleTimer);
+		// The host only reads REMOTE_CLOSE once the running command is out of the way;
+		// a host being recycled has already been asked to remove its PSSession
+		await session.stopCommand?.();
+		await session.recycling;
+		if (!session.info.isLocal && session.process && session.connected) {
+			// Remove the PSSession so it doesn't linger on the target
+			await this.removePSSession(session.process, REMOTE_CLOSE_TIMEOUT_MS);
+		}
+
 		if (session.process) {
-			// Close local PowerShell process
+			// Close the local PowerShell process
 			session.process.stdin?.write('exit\n');
 			session.process.kill('SIGTERM');
-		} else if (!session.info.isLocal) {
-			// Close remote PSSession
-			try {
-				await this.executeInRemoteSession(session, `Remove-PSSession -Name '${name}' -ErrorAction SilentlyContinue`, 5000);
-			} catch {
-				// Ignore errors during cleanup
-			}
 		}
 
 		this.sessions.delete(name);
@@ -156,52 +612,64 @@ export class PowerShellSessionManager extends EventEmitter {
 	 * Create local persistent PowerShell session
 	 */
 	private async createLocalSession(name: string, sessionInfo: PSSessionInfo): Promise<void> {
+		const session: ManagedSession = {
+			info: sessionInfo,
+			connected: false,
+			commandQueue: [],
+			running: false,
+			reconnectAttempts: 0,
+		};
+		await this.startLocalProcess(session);
+		this.sessions.set(name, session);
+		this.emit('sessionCreated', sessionInfo);
+	}
+
+	/**
+	 * Spawn the pwsh behind a local session and wait until the framing helpers are loaded
+	 */
+	private async startLocalProcess(session: ManagedSession): Promise<void> {
+		const sessionInfo = session.info;
+		const env = session.password ? { ...process.env, [PROMPTED_PASSWORD_VARIABLE]: session.password } : undefined;
 		return new Promise((resolve, reject) => {
-			const process = spawn('pwsh', [
+			const process = spawn(sessionInfo.host!.path, [
 				'-NoProfile',
 				'-NoLogo', 
 				'-ExecutionPolicy', 'Bypass',
 				'-Command', '-' // Read from stdin
 			], {
 				stdio: ['pipe', 'pipe', 'pipe'],
-				shell: false
+				shell: false,
+				env,
 			});
 
 			let initialized = false;
+			session.process = process;
 
-			const session = {
-				info: sessionInfo,
-				process,
-				connected: false,
-				commandQueue: []
-			};
-
-			// Send a test command to verify PowerShell is ready
+			// Load the framing helpers; the 'ready' record confirms they're in place
+			const readyNonce = createNonce();
+			const reader = new FrameReader(readyNonce);
 			const initTest = () => {
 				if (!initialized) {
-					process.stdin?.write('Write-Host "PSREADY"\n');
+					process.stdin?.write(preludeLine(readyNonce));
 				}
 			};
 
 			let readyCheckInterval: NodeJS.Timeout;
 
-			process.stdout?.on('data', (data) => {
-				const output = data.toString();
-				
-				if (!initialized && output.includes('PSREADY')) {
-					// PowerShell is ready
-					initialized = true;
-					session.connected = true;
-					sessionInfo.state = 'Connected';
-					sessionInfo.runspaceId = this.generateRunspaceId();
-					
-					if (readyCheckInterval) clearInterval(readyCheckInterval);
-					
-					this.sessions.set(name, session);
-					this.emit('sessionCreated', sessionInfo);
-					resolve();
-				}
-			});
+			const onInitData = (data: Buffer) => {
+				if (initialized || !reader.push(data).some(e => e.type === 'ready')) return;
+				// PowerShell is ready
+				initialized = true;
+				session.hostStarted = true;
+				session.connected = true;
+				sessionInfo.state = 'Connected';
+				sessionInfo.runspaceId = this.generateRunspaceId();
+
+				if (readyCheckInterval) clearInterval(readyCheckInterval);
+				process.stdout?.off('data', onInitData);
+				resolve();
+			};
+			process.stdout?.on('data', onInitData);
 
 			process.stderr?.on('data', (data) => {
 				const output = data.toString();
@@ -212,8 +680,9 @@ export class PowerShellSessionManager extends EventEmitter {
 			});
 
 			process.on('error', (err) => {
-				sessionInfo.state = 'Failed';
 				if (readyCheckInterval) clearInterval(readyCheckInterval);
+				if (session.process !== process) return;
+				sessionInfo.state = 'Failed';
 				if (!initialized) {
 					reject(new Error(`Failed to start local PowerShell session: ${err.message}`));
 				} else {
@@ -221,11 +690,15 @@ export class PowerShellSessionManager extends EventEmitter {
 				}
 			});
 
-			process.on('close', (code) => {
-				sessionInfo.state = 'Disconnected';
-				session.connected = false;
+			process.on('close', () => {
 				if (readyCheckInterval) clearInterval(readyCheckInterval);
-				this.emit('sessionDisconnected', sessionInfo);
+				// A recycled session has already moved on to a new process
+				if (session.process !== process) return;
+				session.connected = false;
+				if (session.closing || !initialized) return;
+				sessionInfo.state = 'Disconnected';
+				this.emit('sessionDisconnected', { ...sessionInfo });
+				this.scheduleReconnect(session);
 			});
 
 			// Wait a moment for process to start, then send ready test
@@ -248,19 +721,105 @@ export class PowerShellSessionManager extends EventEmitter {
 		});
 	}
 
+	/**
+	 * Start the host behind a remote session and teach it to open the PSSession.
+	 * The connection itself is made by the first command.
+	 */
+	private async startRemoteHost(session: ManagedSession): Promise<void> {
+		await this.startLocalProcess(session);
+		const setup = await this.executeInHost(session, remoteSetupScript(session.info.name, session.info.computerName, session.info.options, session.info.transport), 10000);
+		if (!setup.success) {
+			session.connected = false;
+			session.process?.kill('SIGTERM');
+			throw new Error(`Failed to prepare the remote session host: ${setup.stderr || 'unknown error'}`);
+		}
+		// The host is up, but the PSSession only opens with the first command
+		session.info.state = 'Connecting';
+	}
+
+	/**
+	 * Have a remote session's host remove its PSSession. Resolves once it has, once the
+	 * host exits, or after `timeout` — a host stuck in a command never gets to it.
+	 */
+	private removePSSession(process: ChildProcess, timeout: number): Promise<void> {
+		return new Promise(resolve => {
+			if (process.exitCode !== null || process.signalCode !== null) {
+				resolve();
+				return;
+			}
+			const nonce = createNonce();
+			const reader = new FrameReader(nonce);
+			const done = () => {
+				clearTimeout(timeoutId);
+				process.stdout?.off('data', onData);
+				process.off('close', done);
+				resolve();
+			};
+			const onData = (data: Buffer) => {
+				if (reader.push(data).some(event => event.type === 'end')) done();
+			};
+			const timeoutId = setTimeout(done, timeout);
+			process.stdout?.on('data', onData);
+			process.on('close', done);
+			process.stdin?.write(frameCommand(nonce, REMOTE_CLOSE));
+		});
+	}
+
+	/**
+	 * Replace a session's host process, e.g. when a command ignores interruption.
+	 * Everything the session held (variables, modules, location, the remote connection) is lost.
+	 */
+	private async recycleSession(session: ManagedSession): Promise<void> {
+		const old = session.process;
+		const removeRemote = !session.info.isLocal && session.connected;
+		session.process = undefined;
+		session.connected = false;
+		session.info.state = 'Connecting';
+		session.info.location = undefined;
+
+		let tornDown!: () => void;
+		session.recycling = new Promise(resolve => { tornDown = resolve; });
+		try {
+			// Killing the host alone would leave its PSSession open on the target until the idle timeout
+			if (old && removeRemote) await this.removePSSession(old, REMOTE_CLOSE_TIMEOUT_MS);
+			if (old?.pid) await killProcessTree(old.pid, { gracePeriodMs: 0 });
+		} finally {
+			session.recycling = undefined;
+			tornDown();
+		}
+		if (session.closing) return;
+
+		try {
+			await (session.info.isLocal ? this.startLocalProcess(session) : this.startRemoteHost(session));
+		} catch (error) {
+			session.info.state = 'Failed';
+			throw error;
+		}
+		this.emit('sessionRecycled', session.info);
+	}
+
 	/**
 	 * Create remote PowerShell session
 	 */
-	private async createRemoteSession(name: string, sessionInfo: PSSessionInfo, options: PSSessionOptions): Promise<void> {
+	private async createRemoteSession(name: string, sessionInfo: PSSessionInfo, options: PSSessionOptions, password?: string): Promise<void> {
+		// Reject an unusable credential setup now rather than on the first command
+		credentialScript(options.credentialSource, options.credential);
+		if (options.credentialSource?.type === 'prompt' && password === undefined) {
+			throw new CredentialError(`Session '${name}' uses a prompted password, but none was given`);
+		}
+
 		// For remote sessions, we'll create them on-demand during first command execution
 		// This avoids keeping long-running connections when not needed
-		sessionInfo.state = 'Connected';
+		sessionInfo.state = 'Connecting';
 		sessionInfo.runspaceId = this.generateRunspaceId();
 
-		const session = {
+		const session: ManagedSession = {
 			info: sessionInfo,
-			connected: true,
-			commandQueue: []
+			connected: false,
+			commandQueue: [],
+			running: false,
+			reconnectAttempts: 0,
+			password,
 		};
 
 		this.sessions.set(name, session);
@@ -268,184 +827,145 @@ export class PowerShellSessionManager extends EventEmitter {
 	}
 
 	/**
-	 * Execute command in local session
+	 * Execute command in the session's host pwsh. Cancellation and timeouts stop the
+	 * command's pipeline inside the host and kill what it launched, which keeps the host
+	 * and its state; a command that hasn't finished INTERRUPT_GRACE_MS later (e.g. one
+	 * blocked in a .NET call) gets its session recycled. `onEvent` sees each
+	 * record as it arrives.
 	 */
-	private async executeInLocalSession(session: any, command: string, timeout: number): Promise<SessionResult> {
+	private async executeInHost(session: ManagedSession, command: string, timeout: number, signal?: AbortSignal, onEvent?: (event: FrameEvent) => void): Promise<SessionResult> {
 		return new Promise((resolve, reject) => {
-			if (!session.process || !session.connected) {
-				reject(new Error('Local session is not connected'));
+			const process = session.process;
+			if (!process || !session.connected) {
+				reject(new Error('Session host is not connected'));
 				return;
 			}
 
-			const cmdId = ++this.commandId;
-			const startMarker = `---START-${cmdId}---`;
-			const endMarker = `---END-${cmdId}---`;
-			
-			// Wrap command with markers for reliable output parsing
-			const wrappedCommand = `
-Write-Host "${startMarker}"
-try {
-	${command}
-	Write-Host "${endMarker}:SUCCESS"
-} catch {
-	Write-Error $_.Exception.Message
-	Write-Host "${endMarker}:ERROR"
-}
-`;
-
-			let stdout = '';
-			let stderr = '';
-			let capturing = false;
+			const nonce = createNonce();
+			const reader = new FrameReader(nonce);
+			const collected = new FrameCollector();
+			const stderrDecoder = new StringDecoder('utf8');
+			let rawStderr = '';
+			let recycleNotice = '';
 			let completed = false;
+			let stopping: 'cancelled' | 'timeout' | undefined;
+			let stopRequested: Promise<void> | undefined;
+			let graceId: NodeJS.Timeout | undefined;
+			let settle!: () => void;
+			const settled = new Promise<void>(done => { settle = done; });
+
+			const result = (extra: Partial<SessionResult>): SessionResult => {
+				const { stdout, stderr } = collected.output;
+				return {
+					stdout,
+					stderr: [stderr, rawStderr.trim(), stopping === 'timeout' ? `Command timed out after ${timeout}ms` : '', recycleNotice].filter(Boolean).join('\n'),
+					success: false,
+					sessionInfo: { ...session.info },
+					streams: collected.streams,
+					...extra,
+				};
+			};
 
 			// Cleanup function
 			const cleanup = () => {
 				if (timeoutId) clearTimeout(timeoutId);
-				session.process.stdout?.off('data', dataHandler);
-				session.process.stderr?.off('data', errorHandler);
+				if (graceId) clearTimeout(graceId);
+				signal?.removeEventListener('abort', onAbort);
+				process.stdout?.off('data', dataHandler);
+				process.stderr?.off('data', errorHandler);
+				process.off('close', closeHandler);
+			};
+
+			const finish = (extra: Partial<SessionResult>) => {
+				if (completed) return;
+				completed = true;
+				cleanup();
+				if (session.stopCommand === stop) session.stopCommand = undefined;
+				// The host deletes the stop file once it sees it, unless the command finished first
+				void stopRequested?.then(() => rm(stopFilePath(nonce), { force: true })).catch(() => undefined);
+				resolve(result({ ...extra, cancelled: stopping === 'cancelled' || undefined, timedOut: stopping === 'timeout' || undefined }));
+				settle();
+			};
+
+			// The command ignored the interrupt (e.g. a blocking .NET call): start over with a fresh process
+			const recycle = () => {
+				if (completed) return;
+				cleanup();
+				this.recycleSession(session).then(
+					() => {
+						recycleNotice = session.closing
+							? `Session '${session.info.name}' was closed while the command ran`
+							: `Session '${session.info.name}' was restarted to stop the command; variables, modules and location from earlier commands are gone`;
+					},
+					(error) => { recycleNotice = `Session '${session.info.name}' could not be restarted after stopping the command: ${error instanceof Error ? error.message : String(error)}`; },
+				).finally(() => finish({ recycled: true }));
+			};
+
+			// Stop the pipeline and kill what the command launched, but keep the session's own pwsh (and its state) alive
+			const interrupt = (reason: 'cancelled' | 'timeout') => {
+				if (completed || stopping) return;
+				stopping = reason;
+				if (timeoutId) clearTimeout(timeoutId);
+				stopRequested = writeFile(stopFilePath(nonce), '').catch(() => undefined);
+				void killProcessTree(process.pid!, { gracePeriodMs: 0, includeRoot: false }).finally(() => {
+					if (!completed) graceId = setTimeout(recycle, INTERRUPT_GRACE_MS);
+				});
 			};
+			const onAbort = () => interrupt('cancelled');
+			signal?.addEventListener('abort', onAbort, { once: true });
+			const stop = () => {
+				interrupt('cancelled');
+				return settled;
+			};
+			session.stopCommand = stop;
 
 			const dataHandler = (data: Buffer) => {
-				const text = data.toString();
-				
-				if (text.includes(startMarker)) {
-					capturing = true;
-					stdout = '';
-					stderr = '';
-					return;
+				for (const event of reader.push(data)) {
+					collected.add(event);
+					onEvent?.(event);
 				}
-				
-				if (capturing) {
-					if (text.includes(`${endMarker}:SUCCESS`)) {
-						completed = true;
-						const cleanOutput = stdout.replace(new RegExp(`${startMarker}\\s*`, 'g'), '').trim();
-						cleanup();
-						resolve({
-							stdout: cleanOutput,
-							stderr: stderr.trim(),
-							success: true,
-							sessionInfo: { ...session.info }
-						});
-					} else if (text.includes(`${endMarker}:ERROR`)) {
-						completed = true;
-						const cleanOutput = stdout.replace(new RegExp(`${startMarker}\\s*`, 'g'), '').trim();
-						cleanup();
-						resolve({
-							stdout: cleanOutput,
-							stderr: stderr.trim(),
-							success: false,
-							sessionInfo: { ...session.info }
-						});
-					} else {
-						stdout += text;
-					}
+				const end = collected.end;
+				if (end) {
+					if (session.info.isLocal && end.location) session.info.location = end.location;
+					finish({ success: end.success && !stopping, exitCode: end.exitCode, durationMs: end.durationMs });
 				}
 			};
 
+			// Output PowerShell writes around the pipeline (e.g. host-level failures)
 			const errorHandler = (data: Buffer) => {
-				if (capturing) {
-					stderr += data.toString();
-				}
+				rawStderr += stderrDecoder.write(data);
 			};
 
-			session.process.stdout?.on('data', dataHandler);
-			session.process.stderr?.on('data', errorHandler);
+			// `exit` in the command, or a crash, ends the session process
+			const closeHandler = (code: number | null) => {
+				rawStderr += `\nSession process exited${code !== null ? ` with code ${code}` : ''}; its state is lost`;
+				finish({ exitCode: code });
+			};
+
+			process.stdout?.on('data', dataHandler);
+			process.stderr?.on('data', errorHandler);
+			process.on('close', closeHandler);
 
 			// Set timeout
-			const timeoutId = setTimeout(() => {
-				if (!completed) {
-					completed = true;
-					cleanup();
-					reject(new Error(`Command timed out after ${timeout}ms`));
-				}
-			}, timeout);
+			const timeoutId = setTimeout(() => interrupt('timeout'), timeout);
 
 			// Send command
-			session.process.stdin?.write(wrappedCommand + '\n');
+			process.stdin?.write(frameCommand(nonce, command));
 		});
 	}
 
 	/**
-	 * Execute command in remote session
+	 * Execute command in remote session, through the host that owns its PSSession.
+	 * The host is started on first use and again after it died.
 	 */
-	private async executeInRemoteSession(session: any, command: string, timeout: number): Promise<SessionResult> {
-		const options = session.info.options || {};
-		
-		// Build Invoke-Command with session management
-		let invokeCommand = `
-$session = Get-PSSession -Name '${session.info.name}' -ErrorAction SilentlyContinue
-if (-not $session) {
-	$sessionParams = @{
-		Name = '${session.info.name}'
-		ComputerName = '${session.info.computerName}'
-	}
-`;
-
-		// Add authentication parameters
-		if (options.credential) {
-			invokeCommand += `	$sessionParams.Credential = Get-Credential -UserName '${options.credential}' -Message 'Enter credentials'\n`;
-		}
-		if (options.authentication) {
-			invokeCommand += `	$sessionParams.Authentication = '${options.authentication}'\n`;
+	private async executeInRemoteSession(session: ManagedSession, command: string, timeout: number, signal?: AbortSignal): Promise<SessionResult> {
+		if (!session.process || !session.connected) {
+			await this.startRemoteHost(session);
 		}
-		if (options.port) {
-			invokeCommand += `	$sessionParams.Port = ${options.port}\n`;
-		}
-		if (options.useSSL) {
-			invokeCommand += `	$sessionParams.UseSSL = $true\n`;
-		}
-
-		invokeCommand += `
-	$session = New-PSSession @sessionParams
-}
-
-Invoke-Command -Session $session -ScriptBlock {
-	${command}
-}
-`;
-
-		// Execute using a temporary PowerShell process
-		return new Promise((resolve, reject) => {
-			const process = spawn('pwsh', [
-				'-NoProfile',
-				'-NonInteractive',
-				'-ExecutionPolicy', 'Bypass',
-				'-Command', invokeCommand
-			], {
-				stdio: 'pipe',
-				shell: false
-			});
-
-			let stdout = '';
-			let stderr = '';
-
-			process.stdout?.on('data', (data) => {
-				stdout += data.toString();
-			});
-
-			process.stderr?.on('data', (data) => {
-				stderr += data.toString();
-			});
-
-			process.on('close', (code) => {
-				resolve({
-					stdout: stdout.trim(),
-					stderr: stderr.trim(),
-					success: code === 0,
-					sessionInfo: { ...session.info }
-				});
-			});
-
-			process.on('error', (err) => {
-				reject(new Error(`Remote session execution failed: ${err.message}`));
-			});
-
-			// Set timeout
-			setTimeout(() => {
-				process.kill('SIGTERM');
-				reject(new Error(`Remote command timed out after ${timeout}ms`));
-			}, timeout);
-		});
+		const result = await this.executeInHost(session, remoteCommand(command), timeout, signal);
+		// A command that got through shows the PSSession is open
+		if (result.success && session.connected) session.info.state = 'Connected';
+		return result;
 	}
 
 	/**
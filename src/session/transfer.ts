@@ -0,0 +1,200 @@
+/**
+ * File copies between this machine and a remote session's target, run by the session's
+ * host with Copy-Item -ToSession / -FromSession over the PSSession it already holds.
+ *
+ * The script lists the source, plans the target paths, applies the overwrite policy
+ * before anything is copied, then copies file by file so progress can be reported.
+ * Every step writes one JSON line: 'progress' per file, 'result' at the end.
+ */
+
+/** 'to' copies local → remote, 'from' remote → local */
+export type TransferDirection = 'to' | 'from';
+
+/** overwrite: replace existing files; skip: keep them; fail: copy nothing if any exists */
+export type OverwritePolicy = 'overwrite' | 'skip' | 'fail';
+
+export interface TransferRequest {
+	direction: TransferDirection;
+	/** File or directory on the source side; local paths should be absolute */
+	source: string;
+	/**
+	 * A directory source's contents go into this directory. A file source is copied to
+	 * this path, or into it when it is an existing directory or ends with a separator.
+	 */
+	destination: string;
+	/** Needed to copy a directory */
+	recursive?: boolean;
+	overwrite?: OverwritePolicy;
+	/** Compare SHA-256 hashes of source and copy */
+	verify?: boolean;
+}
+
+export interface TransferProgress {
+	/** Path relative to the source directory (the file name for a single file) */
+	file: string;
+	index: number;
+	total: number;
+	copiedBytes: number;
+	totalBytes: number;
+}
+
+export interface TransferSummary {
+	copied: string[];
+	skipped: string[];
+	bytes: number;
+	/** Set when verification ran: true when every copy matched its source */
+	verified?: boolean;
+	/** Copies whose hash differs from the source */
+	mismatched: string[];
+}
+
+function psQuote(value: string): string {
+	return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** Runs in the host after __PiRemoteOpen is defined; see the module comment */
+export function transferScript(request: TransferRequest): string {
+	const { direction, source, destination, recursive = false, overwrite = 'overwrite', verify = false } = request;
+	// A child scope, so the error preference and helper variables don't stay in the host
+	const body = `$ErrorActionPreference = 'Stop'
+$session = $global:__PiRemote
+$sourceRemote = ${direction === 'from' ? '$true' : '$false'}
+$verify = ${verify ? '$true' : '$false'}
+function __PiOnSide([bool]$Remote, [scriptblock]$Block, [object[]]$Arguments) {
+	if ($Remote) { Invoke-Command -Session $session -ScriptBlock $Block -ArgumentList $Arguments }
+	else { & $Block @Arguments }
+}
+$list = {
+	param($Path, $Recurse, $Hash)
+	$item = Get-Item -LiteralPath $Path -Force
+	$root = $null
+	$dirs = @()
+	if ($item.PSIsContainer) {
+		if (-not $Recurse) { throw "$Path is a directory; set recursive to copy it" }
+		$root = $item.FullName.TrimEnd([char]'\\', [char]'/')
+		$files = @(Get-ChildItem -LiteralPath $root -Recurse -File -Force)
+		$dirs = @(Get-ChildItem -LiteralPath $root -Recurse -Directory -Force | ForEach-Object { $_.FullName.Substring($root.Length + 1) -replace '\\\\', '/' })
+	} else {
+		$files = @($item)
+	}
+	[pscustomobject]@{
+		IsDirectory = [bool]$item.PSIsContainer
+		Name = $item.Name
+		Directories = $dirs
+		Files = @($files | ForEach-Object {
+			[pscustomobject]@{
+				Path = $_.FullName
+				Relative = if ($root) { $_.FullName.Substring($root.Length + 1) -replace '\\\\', '/' } else { $_.Name }
+				Length = [long]$_.Length
+				Hash = if ($Hash) { (Get-FileHash -LiteralPath $_.FullName -Algorithm SHA256).Hash } else { $null }
+			}
+		})
+	}
+}
+$plan = {
+	param($Destination, $IsDirectory, $Name, $Relatives, $Directories)
+	$sep = [System.IO.Path]::DirectorySeparatorChar
+	$native = { param($p) $p -replace '[\\\\/]', $sep }
+	# Absolute, so Copy-Item on the other side resolves it the same way
+	$dest = $ExecutionContext.SessionState.Path.GetUnresolvedProviderPathFromPSPath($Destination)
+	if (-not $IsDirectory -and ((Test-Path -LiteralPath $dest -PathType Container) -or $Destination -match '[\\\\/]$')) {
+		$dest = Join-Path $dest $Name
+	}
+	$targets = if ($IsDirectory) { @($Relatives | ForEach-Object { Join-Path $dest (& $native $_) }) } else { @($dest) }
+	$folders = @($targets | ForEach-Object { Split-Path -Parent $_ } | Where-Object { $_ })
+	if ($IsDirectory) { $folders += @($dest) + @($Directories | ForEach-Object { Join-Path $dest (& $native $_) }) }
+	[pscustomobject]@{
+		Targets = $targets
+		Existing = @($targets | ForEach-Object { Test-Path -LiteralPath $_ -PathType Leaf })
+		Folders = @($folders | Select-Object -Unique)
+	}
+}
+$hashes = {
+	param($Paths)
+	@($Paths | ForEach-Object { (Get-FileHash -LiteralPath $_ -Algorithm SHA256).Hash })
+}
+
+$source = __PiOnSide $sourceRemote $list @(${psQuote(source)}, ${recursive ? '$true' : '$false'}, $verify)
+$files = @($source.Files)
+$targetPlan = __PiOnSide (-not $sourceRemote) $plan @(${psQuote(destination)}, $source.IsDirectory, $source.Name, @($files | ForEach-Object { $_.Relative }), @($source.Directories))
+$targets = @($targetPlan.Targets)
+$existing = @($targetPlan.Existing)
+$policy = ${psQuote(overwrite)}
+$conflicts = @(for ($i = 0; $i -lt $files.Count; $i++) { if ($existing[$i]) { $files[$i].Relative } })
+if ($policy -eq 'fail' -and $conflicts.Count -gt 0) {
+	$shown = ($conflicts | Select-Object -First 5) -join ', '
+	$more = if ($conflicts.Count -gt 5) { " and $($conflicts.Count - 5) more" } else { '' }
+	throw "$($conflicts.Count) file(s) already exist at the destination: $shown$more. Nothing was copied; set overwrite to 'overwrite' or 'skip'."
+}
+__PiOnSide (-not $sourceRemote) { param($Folders) foreach ($f in $Folders) { New-Item -ItemType Directory -Path $f -Force | Out-Null } } @(, @($targetPlan.Folders))
+
+$copied = @(); $skipped = @(); $copiedPaths = @(); $sourceHashes = @()
+$total = ($files | Measure-Object -Property Length -Sum).Sum
+if (-not $total) { $total = 0 }
+$done = 0
+for ($i = 0; $i -lt $files.Count; $i++) {
+	$file = $files[$i]
+	if ($policy -eq 'skip' -and $existing[$i]) {
+		$skipped += $file.Relative
+		continue
+	}
+	if ($sourceRemote) {
+		Copy-Item -LiteralPath $file.Path -Destination $targets[$i] -FromSession $session -Force
+	} else {
+		Copy-Item -LiteralPath $file.Path -Destination $targets[$i] -ToSession $session -Force
+	}
+	$done += $file.Length
+	$copied += $file.Relative
+	$copiedPaths += $targets[$i]
+	$sourceHashes += $file.Hash
+	ConvertTo-Json -Compress -InputObject ([ordered]@{ type = 'progress'; file = $file.Relative; index = $i + 1; total = $files.Count; copiedBytes = $done; totalBytes = $total })
+}
+
+$mismatched = @()
+if ($verify -and $copiedPaths.Count -gt 0) {
+	$targetHashes = @(__PiOnSide (-not $sourceRemote) $hashes @(, $copiedPaths))
+	for ($i = 0; $i -lt $copiedPaths.Count; $i++) {
+		if ($targetHashes[$i] -ne $sourceHashes[$i]) { $mismatched += $copied[$i] }
+	}
+}
+ConvertTo-Json -Compress -Depth 3 -InputObject ([ordered]@{ type = 'result'; copied = @($copied); skipped = @($skipped); bytes = $done; verified = if ($verify) { $mismatched.Count -eq 0 } else { $null }; mismatched = @($mismatched) })`;
+	return `__PiRemoteOpen\n& {\n${body}\n}`;
+}
+
+/** A 'progress' or 'result' line of the transfer script's output; undefined for anything else */
+export function parseTransferLine(line: string): { type: 'progress'; progress: TransferProgress } | { type: 'result'; summary: TransferSummary } | undefined {
+	const text = line.trim();
+	if (!text.startsWith('{')) return undefined;
+	let data: Record<string, unknown>;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		return undefined;
+	}
+	const strings = (value: unknown): string[] => Array.isArray(value) ? value.map(String) : [];
+	if (data.type === 'progress') {
+		return {
+			type: 'progress',
+			progress: {
+				file: String(data.file ?? ''),
+				index: Number(data.index) || 0,
+				total: Number(data.total) || 0,
+				copiedBytes: Number(data.copiedBytes) || 0,
+				totalBytes: Number(data.totalBytes) || 0,
+			},
+		};
+	}
+	if (data.type === 'result') {
+		return {
+			type: 'result',
+			summary: {
+				copied: strings(data.copied),
+				skipped: strings(data.skipped),
+				bytes: Number(data.bytes) || 0,
+				verified: typeof data.verified === 'boolean' ? data.verified : undefined,
+				mismatched: strings(data.mismatched),
+			},
+		};
+	}
+	return undefined;
+}
@@ -0,0 +1,434 @@
+/**
+ * Bash-to-PowerShell translation for the bash-isms agents write out of habit.
+ *
+ * Only constructs with one clear PowerShell equivalent are rewritten: environment
+ * assignments and `export`, `$VAR` references to variables the command sets that way,
+ * `&&`/`||` on hosts without them, `/dev/null` and `&>` redirections, `which`, and `rm`
+ * with -r/-f. Anything that could mean two things throws BashTranslationError with an
+ * explanation instead of being guessed at. PowerShell syntax passes through, so a
+ * command that needs no rewriting comes back exactly as written — `$TOTAL` stays a
+ * PowerShell variable unless the command sets TOTAL=… bash-style.
+ */
+
+export interface BashTranslation {
+	command: string;
+	/** What was rewritten, e.g. "2>/dev/null → 2>$null"; empty when the command is unchanged */
+	rewrites: string[];
+}
+
+export interface TranslateOptions {
+	/** The host understands && and || (PowerShell 7+); otherwise they become if ($?) blocks */
+	chainOperators: boolean;
+}
+
+export class BashTranslationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'BashTranslationError';
+	}
+}
+
+/** PowerShell 7 added && and ||; 5.1 and 6 don't parse them */
+export function hasChainOperators(version: string): boolean {
+	return parseInt(version, 10) >= 7;
+}
+
+type Token =
+	| { kind: 'word'; text: string }
+	| { kind: 'op'; text: '&&' | '||' | '|' | ';' | '\n' }
+	| { kind: 'redirect'; op: string; target: string };
+
+/** One command of a pipeline, after translation */
+interface Unit {
+	/** $env: assignments that run first */
+	prefix: string[];
+	text: string;
+	/** A statement (if ...) rather than something that can sit in a pipeline */
+	compound: boolean;
+}
+
+/** Upper-case names that are PowerShell automatic variables, not environment variables */
+const AUTOMATIC_VARIABLES = new Set(['HOME', 'PWD', 'PID', 'HOST', 'PROFILE', 'LASTEXITCODE', 'NULL', 'TRUE', 'FALSE', 'ERROR', 'INPUT', 'ARGS', 'MATCHES', 'PSHOME', 'PSITEM', 'ENV']);
+
+const ENV_NAME = /^[A-Z][A-Z0-9_]*$|^_[A-Z0-9_]*[A-Z][A-Z0-9_]*$/;
+
+/** $NAME = …, $NAME += …, foreach ($NAME in …): the command uses NAME as a PowerShell variable */
+const PS_ASSIGNMENT = /\$\{?([A-Za-z_][A-Za-z0-9_]*)\}?(?:\s*[-+*/%]?=(?!=)|\s+in\s)/g;
+
+/** Names set with NAME=value / export NAME=value, which $NAME references are rewritten for */
+type EnvNames = Set<string>;
+
+function refuse(message: string): never {
+	throw new BashTranslationError(message);
+}
+
+function psLiteral(value: string): string {
+	return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * A \" that ends a PowerShell string ("C:\out\") rather than escaping a quote bash-style:
+ * it is followed by the end of a word, and the rest of the command has balanced quotes.
+ */
+function endsString(text: string, after: number): boolean {
+	const rest = text.slice(after);
+	if (!/^(?:$|[\s;|&)}])/.test(rest)) return false;
+	return (rest.replace(/`"/g, '').match(/"/g) ?? []).length % 2 === 0;
+}
+
+/** Index after the quoted string starting at `start` (the opening quote) */
+function skipQuoted(text: string, start: number): number {
+	const quote = text[start];
+	// Here-strings: @'<newline> ... <newline>'@
+	if (text[start - 1] === '@' && /^\r?\n/.test(text.slice(start + 1))) {
+		const end = text.indexOf(`\n${quote}@`, start);
+		return end === -1 ? text.length : end + 3;
+	}
+	for (let i = start + 1; i < text.length; i++) {
+		const ch = text[i];
+		if (quote === "'") {
+			if (ch === "'") return i + 1;
+			continue;
+		}
+		if (ch === '`') { i++; continue; }
+		if (ch === '\\' && text[i + 1] === '"') {
+			if (endsString(text, i + 2)) return i + 2;
+			refuse('Backslash-escaped quotes (\\") mean different things in bash and PowerShell. Use single quotes, or escape with a backtick (`").');
+		}
+		if (ch === '"') return i + 1;
+	}
+	return text.length;
+}
+
+function tokenize(command: string, rewrites: Set<string>): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+	const startsCommand = () => tokens.length === 0 || tokens[tokens.length - 1].kind === 'op';
+
+	while (i < command.length) {
+		const ch = command[i];
+		const rest = command.slice(i);
+
+		if (ch === ' ' || ch === '\t' || ch === '\r') { i++; continue; }
+		if (rest.startsWith('\\\n') || rest.startsWith('\\\r\n')) {
+			rewrites.add('\\ line continuations → joined lines');
+			i += rest[1] === '\r' ? 3 : 2;
+			continue;
+		}
+		if (ch === '\n' || ch === ';') { tokens.push({ kind: 'op', text: ch }); i++; continue; }
+		if (rest.startsWith('&&') || rest.startsWith('||')) { tokens.push({ kind: 'op', text: rest.slice(0, 2) as '&&' | '||' }); i += 2; continue; }
+		if (ch === '|') { tokens.push({ kind: 'op', text: '|' }); i++; continue; }
+		if (rest.startsWith('<#')) {
+			// A PowerShell block comment, not input redirection
+			const end = command.indexOf('#>', i + 2);
+			const start = i;
+			i = end === -1 ? command.length : end + 2;
+			tokens.push({ kind: 'word', text: command.slice(start, i) });
+			continue;
+		}
+		if (ch === '<') {
+			refuse('PowerShell has no input redirection (< or <<). Pipe the content instead: Get-Content file | command');
+		}
+
+		const redirect = rest.match(/^(\d|&|\*)?>>?(&\d)?/);
+		if (redirect) {
+			i += redirect[0].length;
+			if (redirect[2]) {
+				if (redirect[2] !== '&1') refuse(`${redirect[0]}: PowerShell can only merge a stream into the output (N>&1)`);
+				tokens.push({ kind: 'redirect', op: redirect[0], target: '' });
+				continue;
+			}
+			while (command[i] === ' ' || command[i] === '\t') i++;
+			const start = i;
+			while (i < command.length && !/[\s;|&<>]/.test(command[i])) {
+				i = command[i] === '"' || command[i] === "'" ? skipQuoted(command, i) : i + 1;
+			}
+			if (start === i) refuse(`Redirection ${redirect[0]} has no target`);
+			tokens.push({ kind: 'redirect', op: redirect[0], target: command.slice(start, i) });
+			continue;
+		}
+
+		if (ch === '&' && !startsCommand()) {
+			refuse('A trailing & runs the command in the background in bash. Use pwsh-start-job for background processes.');
+		}
+
+		// A word: runs to unquoted whitespace or an operator, with { } and ( ) kept whole
+		const start = i;
+		let depth = 0;
+		if (ch === '#') {
+			while (i < command.length && command[i] !== '\n') i++;
+		} else if (ch === '&') {
+			i++;
+		}
+		while (i < command.length) {
+			const c = command[i];
+			if (c === '"' || c === "'") { i = skipQuoted(command, i); continue; }
+			if (c === '`') { i += 2; continue; }
+			if (c === '{' || c === '(') depth++;
+			else if (c === '}' || c === ')') depth = Math.max(0, depth - 1);
+			else if (depth === 0 && /[\s;|&<>]/.test(c)) break;
+			i++;
+		}
+		tokens.push({ kind: 'word', text: command.slice(start, i) });
+	}
+	return tokens;
+}
+
+/**
+ * Names the command sets bash-style. Refuses a name it also assigns as a PowerShell
+ * variable, since $NAME could then mean either.
+ */
+function envNames(command: string, tokens: Token[]): EnvNames {
+	const names: EnvNames = new Set();
+	let start = true;
+	let exporting = false;
+	for (const token of tokens) {
+		if (token.kind === 'op') { start = true; exporting = false; continue; }
+		if (token.kind !== 'word') continue;
+		if (start && token.text === 'export') { exporting = true; continue; }
+		const name = (start || exporting) ? token.text.match(/^([A-Za-z_][A-Za-z0-9_]*)=/)?.[1] : undefined;
+		if (name) {
+			names.add(name);
+			continue;
+		}
+		start = false;
+		exporting = false;
+	}
+
+	const unquoted = command.replace(/'[^']*'/g, "''");
+	for (const [, name] of unquoted.matchAll(PS_ASSIGNMENT)) {
+		const clash = [...names].find(n => n.toUpperCase() === name.toUpperCase());
+		if (clash) {
+			refuse(`${clash} is set both as an environment variable (${clash}=…) and as a PowerShell variable ($${name}) — write $env:${clash} or $${name} explicitly`);
+		}
+	}
+	return names;
+}
+
+/** Rewrite $VAR / ${VAR} references to $env:VAR for names in `env`, outside single quotes */
+function translateVariables(word: string, env: EnvNames, rewrites: Set<string>): string {
+	let out = '';
+	let inDouble = false;
+	for (let i = 0; i < word.length; i++) {
+		const ch = word[i];
+		if (ch === "'" && !inDouble) {
+			const end = skipQuoted(word, i);
+			out += word.slice(i, end);
+			i = end - 1;
+			continue;
+		}
+		if (ch === '"') inDouble = !inDouble;
+		if (ch === '`') { out += word.slice(i, i + 2); i++; continue; }
+		if (ch !== '$') { out += ch; continue; }
+
+		const rest = word.slice(i + 1);
+		const braced = rest.match(/^\{([A-Za-z_][A-Za-z0-9_]*)([^}]*)\}/);
+		if (braced && ENV_NAME.test(braced[1])) {
+			// ${ENV:PATH} is already PowerShell
+			if (braced[2].startsWith(':') && !/^:[-=+?]/.test(braced[2])) { out += ch; continue; }
+			if (braced[2]) {
+				refuse(`\${${braced[1]}${braced[2]}}: bash parameter expansion has no direct PowerShell equivalent. Use an if or the -replace operator explicitly.`);
+			}
+		}
+		if (braced && !braced[2] && env.has(braced[1]) && !AUTOMATIC_VARIABLES.has(braced[1])) {
+			rewrites.add(`\${${braced[1]}} → \${env:${braced[1]}}`);
+			out += `\${env:${braced[1]}}`;
+			i += braced[0].length;
+			continue;
+		}
+		if (/^[1-9@#*]/.test(rest)) {
+			refuse(`$${rest[0]}: positional parameters only exist inside bash scripts and functions`);
+		}
+		const name = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/)?.[0];
+		if (name && env.has(name) && !AUTOMATIC_VARIABLES.has(name) && rest[name.length] !== ':') {
+			rewrites.add(`$${name} → $env:${name}`);
+			out += `$env:${name}`;
+			i += name.length;
+			continue;
+		}
+		out += ch;
+	}
+	return out;
+}
+
+/** NAME=value as a PowerShell assignment, or undefined if the word isn't one */
+function envAssignment(word: string): { name: string; statement: string } | undefined {
+	const m = word.match(/^([A-Za-z_][A-Za-z0-9_]*)=([\s\S]*)$/);
+	if (!m) return undefined;
+	const [, name, raw] = m;
+	let value: string;
+	if (raw === '') {
+		value = "''";
+	} else if (/^'[^']*'$/.test(raw) || /^"([^"`]|`.)*"$/.test(raw)) {
+		value = raw;
+	} else if (!/['"]/.test(raw)) {
+		value = raw.includes('$') ? `"${raw}"` : psLiteral(raw);
+	} else {
+		refuse(`${name}=${raw}: values that mix quoted and unquoted parts are ambiguous — quote the whole value`);
+	}
+	return { name, statement: `$env:${name} = ${value}` };
+}
+
+function translateRedirect(token: Extract<Token, { kind: 'redirect' }>, rewrites: Set<string>): string {
+	const op = token.op.startsWith('&') ? `*${token.op.slice(1)}` : token.op;
+	const target = token.target === '/dev/null' ? '$null' : token.target;
+	if (op !== token.op || target !== token.target) rewrites.add(`${token.op}${token.target} → ${op}${target}`);
+	return op + target;
+}
+
+function translateWhich(args: string[], rewrites: Set<string>): string {
+	if (args.length === 0 || args.some(a => a.startsWith('-'))) {
+		refuse('which: only plain `which name` is translated — use Get-Command directly for anything else');
+	}
+	rewrites.add('which → Get-Command');
+	const count = args.length === 1 ? ' -TotalCount 1' : '';
+	return `Get-Command -Name ${args.join(', ')} -CommandType Application${count} | Select-Object -ExpandProperty Source`;
+}
+
+/** rm with -r/-f options; rm without options is already a PowerShell alias */
+function translateRm(args: string[], rewrites: Set<string>): Unit | undefined {
+	let recurse = false;
+	let force = false;
+	const paths: string[] = [];
+	let options = true;
+	for (const arg of args) {
+		if (options && arg === '--') { options = false; continue; }
+		if (options && arg.startsWith('-')) {
+			if (arg === '--recursive' || arg === '--force' || /^-[rRf]+$/.test(arg)) {
+				recurse ||= arg === '--recursive' || /^-[^-]*[rR]/.test(arg);
+				force ||= arg === '--force' || /^-[^-]*f/.test(arg);
+				continue;
+			}
+			refuse(`rm ${arg}: only -r and -f are translated — use Remove-Item directly`);
+		}
+		paths.push(arg);
+	}
+	if (!recurse && !force) return undefined;
+	if (paths.length === 0) refuse('rm: no paths given');
+
+	const flags = `${recurse ? ' -Recurse' : ''}${force ? ' -Force' : ''}`;
+	rewrites.add(`rm -${recurse ? 'r' : ''}${force ? 'f' : ''} → Remove-Item${flags}`);
+	if (!force) return { prefix: [], text: `Remove-Item -Path ${paths.join(', ')}${flags}`, compound: false };
+	// rm -f succeeds for missing paths; Remove-Item -Force doesn't
+	const removals = paths.map(p => `if (Test-Path -Path ${p}) { Remove-Item -Path ${p}${flags} }`);
+	return { prefix: [], text: removals.join('; '), compound: true };
+}
+
+function translateCommand(words: string[], redirects: string[], rewrites: Set<string>): Unit {
+	const assignments: string[] = [];
+	let rest = words;
+	if (rest[0] === 'export') {
+		if (rest.length === 1) refuse('export without arguments lists variables in bash — use Get-ChildItem env:');
+		for (const word of rest.slice(1)) {
+			const assignment = envAssignment(word);
+			if (!assignment) refuse(`export ${word}: only export NAME=value is translated (PowerShell $env: variables are always exported)`);
+			assignments.push(assignment.statement);
+			rewrites.add(`export ${assignment.name}=… → ${assignment.statement}`);
+		}
+		rest = [];
+	}
+	while (rest.length > 0) {
+		const assignment = envAssignment(rest[0]);
+		if (!assignment) break;
+		assignments.push(assignment.statement);
+		rewrites.add(`${rest[0]} → ${assignment.statement}`);
+		rest = rest.slice(1);
+	}
+
+	let body: Unit | undefined;
+	if (rest[0] === 'which') {
+		body = { prefix: [], text: translateWhich(rest.slice(1), rewrites), compound: false };
+	} else if (rest[0] === 'rm') {
+		body = translateRm(rest.slice(1), rewrites);
+	}
+	body ??= { prefix: [], text: rest.join(' '), compound: false };
+
+	if (redirects.length > 0) {
+		if (body.compound) refuse('Redirections after rm -f are not translated');
+		body = { ...body, text: [body.text, ...redirects].filter(Boolean).join(' ') };
+	}
+	return { ...body, prefix: assignments };
+}
+
+/** Statements for one translated pipeline (assignments first) */
+function joinPipeline(units: Unit[]): Unit {
+	if (units.length > 1 && units.some((u, i) => u.compound || (i > 0 && u.prefix.length > 0))) {
+		refuse('Environment assignments and rm -f can only start a pipeline, not appear inside one');
+	}
+	const [first] = units;
+	const text = [...first.prefix, units.map(u => u.text).join(' | ')].filter(Boolean).join('; ');
+	return { prefix: [], text, compound: first.compound || first.prefix.length > 0 };
+}
+
+/** a && b && c → a; if ($?) { b; if ($?) { c } } */
+function nestChain(units: string[], operator: '&&' | '||'): string {
+	const test = operator === '&&' ? '$?' : '-not $?';
+	return units.reduceRight((inner, unit) => `${unit}; if (${test}) { ${inner} }`);
+}
+
+/**
+ * Translate a bash-style command to PowerShell. Throws BashTranslationError when part
+ * of it can't be translated without guessing.
+ */
+export function translateBash(command: string, options: TranslateOptions): BashTranslation {
+	const rewrites = new Set<string>();
+	const tokens = tokenize(command, rewrites);
+	const env = envNames(command, tokens);
+
+	const parts: string[] = [];
+	let chain: Unit[] = [];
+	let chainOps: ('&&' | '||')[] = [];
+	let pipeline: Unit[] = [];
+	let words: string[] = [];
+	let redirects: string[] = [];
+
+	const endCommand = () => {
+		if (words.length === 0 && redirects.length === 0) return;
+		pipeline.push(translateCommand(words, redirects, rewrites));
+		words = [];
+		redirects = [];
+	};
+	const endPipeline = () => {
+		endCommand();
+		if (pipeline.length > 0) chain.push(joinPipeline(pipeline));
+		pipeline = [];
+	};
+	const endStatement = (separator: string) => {
+		endPipeline();
+		if (chain.length > 0) parts.push(buildChain(chain, chainOps, options, rewrites), separator);
+		chain = [];
+		chainOps = [];
+	};
+
+	for (const token of tokens) {
+		if (token.kind === 'word') {
+			words.push(translateVariables(token.text, env, rewrites));
+		} else if (token.kind === 'redirect') {
+			redirects.push(translateRedirect({ ...token, target: translateVariables(token.target, env, rewrites) }, rewrites));
+		} else if (token.text === '|') {
+			endCommand();
+		} else if (token.text === '&&' || token.text === '||') {
+			endPipeline();
+			chainOps.push(token.text);
+		} else {
+			endStatement(token.text === ';' ? '; ' : '\n');
+		}
+	}
+	endStatement('');
+
+	if (rewrites.size === 0) return { command, rewrites: [] };
+	return { command: parts.slice(0, -1).join(''), rewrites: [...rewrites] };
+}
+
+function buildChain(units: Unit[], ops: ('&&' | '||')[], options: TranslateOptions, rewrites: Set<string>): string {
+	if (ops.length === 0) return units[0].text;
+	// Statements can't be && operands, so assignments and rm -f force the if form too
+	const needsBlocks = !options.chainOperators || units.some(u => u.compound);
+	if (!needsBlocks) return units.map((u, i) => (i > 0 ? `${ops[i - 1]} ` : '') + u.text).join(' ');
+
+	if (ops.some(op => op !== ops[0])) {
+		refuse('Mixed && and || chains are not translated for this host — split the command, or use if ($?) { ... } explicitly');
+	}
+	rewrites.add(`${ops[0]} → if (${ops[0] === '&&' ? '$?' : '-not $?'}) { … }`);
+	return nestChain(units.map(u => u.text), ops[0]);
+}
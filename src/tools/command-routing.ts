@@ -0,0 +1,57 @@
+/**
+ * Batch-file routing for the powershell tool.
+ *
+ * npm, yarn, pnpm... are .cmd shims on Windows, and some of them fail when PowerShell
+ * launches them directly. Instead of matching the (localized) error text afterwards,
+ * the first token of a simple command is resolved with Get-Command up front and
+ * .cmd/.bat targets are sent through `cmd /c` on the first try.
+ */
+
+/** How a command was executed */
+export type ExecutionPath =
+	/** pwsh -Command, as written */
+	| 'powershell'
+	/** Pre-flight resolved a .cmd/.bat file, so it ran via cmd /c directly */
+	| 'cmd'
+	/** Ran in PowerShell first, failed with a batch-file error, retried via cmd /c */
+	| 'cmd-retry'
+	/** A .ps1 file with arguments (pwsh-run-script) */
+	| 'file';
+
+/** Prints "CommandType|Source" for the name in $env:PI_RESOLVE_NAME, or nothing */
+export const RESOLVE_COMMAND = `$c = Get-Command -Name $env:PI_RESOLVE_NAME -ErrorAction SilentlyContinue | Select-Object -First 1; if ($c) { '{0}|{1}' -f $c.CommandType, $c.Source }`;
+
+/**
+ * The program a command starts with, when the whole command is one plain invocation
+ * (`npm run build -- --watch`). Null for anything PowerShell has to interpret — pipes,
+ * statements, variables, script blocks, cmdlets — which must not be handed to cmd.
+ */
+export function batchCandidate(command: string): string | null {
+	const trimmed = command.trim();
+	// Single quotes mean different things to PowerShell and cmd, so those stay in PowerShell too
+	if (!trimmed || /[;|`${}()@<>']|&&/.test(trimmed)) return null;
+	const token = trimmed.match(/^[^\s"]+/)?.[0];
+	if (!token) return null;
+	// Verb-Noun cmdlets, already-explicit cmd, and operators are never batch files
+	if (/^[A-Za-z]+-[A-Za-z]+$/.test(token) || /^(cmd|cmd\.exe|&|\.)$/i.test(token)) return null;
+	return token;
+}
+
+/** Whether RESOLVE_COMMAND output names a .cmd/.bat application */
+export function isBatchResolution(output: string): boolean {
+	const [type, source] = output.trim().split('|');
+	return type === 'Application' && /\.(cmd|bat)$/i.test(source ?? '');
+}
+
+/** Batch-file launch failures from PowerShell (English/Spanish) — fallback only */
+export function isBatchLaunchError(stderr: string): boolean {
+	return stderr.includes('no es una aplicación Win32 válida') ||
+		stderr.includes('is not a valid Win32 application') ||
+		stderr.includes('cannot run due to the error');
+}
+
+export function describeExecutionPath(path: ExecutionPath | undefined): string | undefined {
+	if (path === 'cmd') return '[Ran via cmd /c — the command resolves to a batch file]';
+	if (path === 'cmd-retry') return '[Retried via cmd /c after a batch-file launch error]';
+	return undefined;
+}
@@ -0,0 +1,73 @@
+/**
+ * Masked password prompt for remote sessions whose credentialSource is 'prompt'.
+ * The typed text is never rendered, logged or returned in a tool result.
+ */
+
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { Theme } from "@mariozechner/pi-coding-agent";
+import { matchesKey, truncateToWidth, type Component, type TUI } from "@mariozechner/pi-tui";
+import { CredentialError } from "../session/credentials.js";
+import type { PSSessionOptions } from "../session/session-manager.js";
+
+/** Bracketed paste wraps pasted text in these */
+const PASTE_START = '\x1b[200~';
+const PASTE_END = '\x1b[201~';
+
+/** Single-line input that shows one bullet per character */
+export class SecretInput implements Component {
+	private value = '';
+
+	constructor(
+		private readonly title: string,
+		private readonly theme: Theme,
+		private readonly tui: TUI,
+		private readonly done: (value: string | undefined) => void,
+	) {}
+
+	handleInput(data: string): void {
+		if (matchesKey(data, 'enter')) return this.done(this.value);
+		if (matchesKey(data, 'escape')) return this.done(undefined);
+		if (matchesKey(data, 'backspace')) {
+			this.value = Array.from(this.value).slice(0, -1).join('');
+		} else {
+			const text = data.replaceAll(PASTE_START, '').replaceAll(PASTE_END, '');
+			// Other escape sequences are navigation keys; a password has no use for them
+			if (text.startsWith('\x1b')) return;
+			this.value += Array.from(text).filter(ch => ch >= ' ' && ch !== '\x7f').join('');
+		}
+		this.tui.requestRender();
+	}
+
+	render(width: number): string[] {
+		return [
+			truncateToWidth(this.theme.fg("accent", this.title), width),
+			truncateToWidth('•'.repeat(Array.from(this.value).length) + this.theme.fg("muted", '▏'), width),
+			truncateToWidth(this.theme.fg("dim", "Enter to connect · Esc to cancel"), width),
+		];
+	}
+
+	invalidate(): void {}
+}
+
+/**
+ * Options and password for createSession. A remote user name without a credentialSource
+ * means prompting; the prompt runs in pi's UI. Throws CredentialError when it can't.
+ */
+export async function prepareCredentials(name: string, options: PSSessionOptions, ctx: ExtensionContext): Promise<{ options: PSSessionOptions; password?: string }> {
+	if (!options.credentialSource && options.computerName && options.credential) {
+		options = { ...options, credentialSource: { type: 'prompt' } };
+	}
+	if (options.credentialSource?.type !== 'prompt') return { options };
+	if (!options.credential) {
+		throw new CredentialError(`Session '${name}' prompts for a password but has no credential (user name)`);
+	}
+	if (!ctx.hasUI) {
+		throw new CredentialError(`Session '${name}' prompts for a password, which needs pi's UI — use an env, vault or file credentialSource instead`);
+	}
+	const title = `Password for ${options.credential} on ${options.computerName}`;
+	const password = await ctx.ui.custom<string | undefined>((tui, theme, _keybindings, done) => new SecretInput(title, theme, tui, done));
+	if (password === undefined) {
+		throw new CredentialError(`No password was entered for session '${name}'`);
+	}
+	return { options, password };
+}
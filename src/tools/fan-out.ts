@@ -0,0 +1,108 @@
+/**
+ * Fan-out — one powershell command run in several sessions at once.
+ *
+ * Targets are session names, or `tag:<tag>` for every open or configured session with
+ * that tag. Each session runs the command through its own queue, at most `concurrency`
+ * sessions at a time, and the results come back grouped per host.
+ */
+
+import type { Theme } from "@mariozechner/pi-coding-agent";
+import type { PSSessionInfo } from "../session/session-manager.js";
+import type { SessionDefinition } from "../config/config.js";
+import { formatDuration } from "../jobs/job-registry.js";
+
+export const DEFAULT_CONCURRENCY = 4;
+
+const TAG_PREFIX = 'tag:';
+
+export interface HostResult {
+	session: string;
+	/** Remote machine, 'localhost' for a local session */
+	computerName: string;
+	success: boolean;
+	exitCode: number;
+	durationMs?: number;
+	cancelled?: boolean;
+	/** The session's output, truncated like a single-session result */
+	output: string;
+}
+
+/**
+ * Session names for `selectors`, in order and without duplicates. Plain names are kept
+ * as given (an unknown one fails on its own host); tag selectors that match nothing
+ * come back in `unmatched`.
+ */
+export function resolveTargets(
+	selectors: string[],
+	open: PSSessionInfo[],
+	defined: Record<string, SessionDefinition>,
+): { names: string[]; unmatched: string[] } {
+	const tagged = new Map<string, string[]>();
+	const tag = (name: string, tags: string[] | undefined) => {
+		for (const t of tags ?? []) {
+			const names = tagged.get(t) ?? [];
+			if (!names.includes(name)) names.push(name);
+			tagged.set(t, names);
+		}
+	};
+	for (const info of open) tag(info.name, info.options?.tags);
+	for (const [name, definition] of Object.entries(defined)) tag(name, definition.tags);
+
+	const names: string[] = [];
+	const unmatched: string[] = [];
+	for (const selector of selectors) {
+		const matched = selector.startsWith(TAG_PREFIX) ? tagged.get(selector.slice(TAG_PREFIX.length)) ?? [] : [selector];
+		if (matched.length === 0) unmatched.push(selector);
+		for (const name of matched) {
+			if (!names.includes(name)) names.push(name);
+		}
+	}
+	return { names, unmatched };
+}
+
+/** Run `task` for every item, at most `limit` at a time; results keep the items' order */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await task(items[index]);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+	return results;
+}
+
+function outcome(host: HostResult): string {
+	const took = host.durationMs !== undefined ? ` in ${formatDuration(host.durationMs)}` : '';
+	if (host.cancelled) return `cancelled${took}`;
+	return host.success ? `succeeded${took}` : `failed (exit ${host.exitCode})${took}`;
+}
+
+/** "2 of 3 sessions succeeded; failed: db01" */
+export function summarizeFanOut(hosts: HostResult[]): string {
+	const failed = hosts.filter(h => !h.success).map(h => h.session);
+	const summary = `${hosts.length - failed.length} of ${hosts.length} session${hosts.length === 1 ? '' : 's'} succeeded`;
+	return failed.length > 0 ? `${summary}; failed: ${failed.join(', ')}` : summary;
+}
+
+/** Per-host sections for the agent, then the summary */
+export function formatFanOut(hosts: HostResult[]): string {
+	const sections = hosts.map(host => `### ${host.session} (${host.computerName}): ${outcome(host)}\n${host.output}`);
+	return `${sections.join('\n\n')}\n\n${summarizeFanOut(hosts)}`;
+}
+
+/** One row per host — status, session, target, duration, exit code — for the renderer */
+export function hostMatrix(hosts: HostResult[], theme: Theme): string[] {
+	const width = (values: string[]) => Math.max(...values.map(v => v.length));
+	const nameWidth = width(hosts.map(h => h.session));
+	const targetWidth = width(hosts.map(h => h.computerName));
+	const rows = hosts.map(host => {
+		const mark = host.cancelled ? theme.fg("warning", "–") : host.success ? theme.fg("success", "✓") : theme.fg("error", "✗");
+		const took = host.durationMs !== undefined ? formatDuration(host.durationMs) : '';
+		const cells = `${host.session.padEnd(nameWidth)}  ${host.computerName.padEnd(targetWidth)}  ${took.padStart(7)}  exit ${host.exitCode}`;
+		return `${mark} ${host.success ? theme.fg("toolOutput", cells) : theme.fg("error", cells)}`;
+	});
+	return [...rows, theme.fg("muted", summarizeFanOut(hosts))];
+}
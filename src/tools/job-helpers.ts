@@ -5,7 +5,8 @@
  * tool call spawns a fresh process, jobs vanish between calls.
  *
  * Instead: Start-Process creates real detached OS processes, we track PIDs in
- * extension memory (persists across tool calls), and capture output via *> redirect
+ * extension memory (persists across tool calls) backed by a per-project state file
+ * (persists across pi restarts), and capture output via *> redirect
  * (all PowerShell streams to one file — see about_Redirection).
  */
 
@@ -13,29 +14,43 @@ import type { ExtensionAPI, ExtensionContext, AgentToolResult, ToolRenderResultO
 import { Theme } from "@mariozechner/pi-coding-agent";
 import { Text } from "@mariozechner/pi-tui";
 import { Type } from "@sinclair/typebox";
-import { tmpdir } from "os";
+import { mkdirSync } from "fs";
 import { join } from "path";
 import { randomBytes } from "crypto";
-import { executePowerShell } from "./powershell.js";
+import { executePowerShell, analyzeScript, describeSyntaxErrors, checkGuard, type PowerShellToolResult } from "./powershell.js";
+import { translateBash, hasChainOperators, BashTranslationError } from "./bash-translate.js";
+import type { ParseError } from "./script-analysis.js";
+import { jobs, loadJobs, saveJobs, isSameProcess, markFinished, getJobState, isFailedJob, formatJobStatus, getJobDuration, formatDuration, type TrackedJob, type JobState } from "../jobs/job-registry.js";
+import { waitForReady, validateReadyCriteria, type ReadyResult } from "../jobs/readiness.js";
+import { killProcessTree, type KillTreeResult } from "../process/process-tree.js";
+import { resolveHost, type PowerShellHost } from "../process/powershell-host.js";
+import { getConfig } from "../config/config.js";
+import { readLogWindow, type LogWindow } from "../jobs/job-logs.js";
 
 /** Short unique suffix to avoid temp file collisions across pi instances */
 const instanceId = randomBytes(3).toString('hex');
 
-interface TrackedJob {
-	pid: number;
-	name: string;
-	command: string;
-	workingDirectory: string;
-	stdoutFile: string | null;
-	stderrFile: string | null;  // null = merged with stdout
-	startedAt: Date;
+type LogRange = Omit<LogWindow, 'text'>;
+
+interface JobSummary { name: string; state: JobState; exitCode?: number; durationMs: number; }
+
+interface JobDetails {
+	name?: string; command?: string; pid?: number; success: boolean; error?: string;
+	ready?: ReadyResult;
+	/** Bash syntax rewritten before starting */
+	rewrites?: string[];
+	/** Parser errors that kept the job from starting */
+	syntaxErrors?: ParseError[];
+	/** Set when the command guard kept the job from starting */
+	guard?: PowerShellToolResult['guard'];
+	killed?: number[]; survived?: number[];
+	/** Byte ranges returned by pwsh-get-job-output, and the read cursor afterwards */
+	stdout?: LogRange; stderr?: LogRange; cursor?: { stdout: number; stderr: number };
+	state?: JobState; exitCode?: number; durationMs?: number;
+	/** Per-job summary for the list view */
+	jobs?: JobSummary[];
 }
 
-/** In-memory job registry — survives across tool calls because the extension stays loaded */
-const jobs = new Map<string, TrackedJob>();
-
-interface JobDetails { name?: string; command?: string; pid?: number; success: boolean; error?: string; }
-
 function result(text: string, details: JobDetails): AgentToolResult<JobDetails> {
 	return { content: [{ type: "text", text }], details };
 }
@@ -45,27 +60,116 @@ function jobRenderCall(args: Record<string, unknown>, theme: Theme) {
 	return new Text(theme.fg("toolTitle", theme.bold("pwsh-job ")) + (name ? theme.fg("accent", name) : theme.fg("muted", "all")), 0, 0);
 }
 
+/** Failed = exited on its own with a non-zero code; killed jobs are only a warning */
+function summaryColor(summary: { state?: JobState; exitCode?: number } | undefined): "error" | "warning" | "toolOutput" {
+	if (summary?.state === 'Exited' && summary.exitCode !== 0) return "error";
+	if (summary?.state === 'Killed') return "warning";
+	return "toolOutput";
+}
+
 function jobRenderResult(res: AgentToolResult<JobDetails>, options: ToolRenderResultOptions, theme: Theme) {
 	const text = res.content[0]?.type === "text" ? res.content[0].text : "";
 	if (!res.details?.success) return new Text(theme.fg("error", text), 0, 0);
+	const summaries = res.details.jobs;
+	const failed = summaries?.filter(j => summaryColor(j) === "error").length ?? 0;
 	if (!options.expanded) {
 		const first = text.split('\n')[0].slice(0, 120);
 		const n = text.split('\n').length;
-		return new Text(theme.fg("toolOutput", first) + (n > 1 ? theme.fg("muted", ` (${n} lines)`) : ""), 0, 0);
+		return new Text(
+			theme.fg("toolOutput", first)
+			+ (failed ? theme.fg("error", ` — ${failed} failed`) : "")
+			+ (n > 1 ? theme.fg("muted", ` (${n} lines)`) : ""),
+			0, 0
+		);
+	}
+	if (summaries) {
+		// List view: one line per job after the header, coloured by outcome
+		const [header, ...lines] = text.split('\n');
+		const colored = lines.map((line, i) => theme.fg(summaryColor(summaries[i]), line));
+		return new Text([theme.fg("toolOutput", header), ...colored].join('\n'), 0, 0);
 	}
-	return new Text(theme.fg("toolOutput", text), 0, 0);
+	return new Text(theme.fg(summaryColor(res.details), text), 0, 0);
 }
 
-async function run(command: string, cwd: string, timeout = 5000) {
+/** Line cap for open-ended output reads (same as the powershell tool's truncation) */
+const MAX_OUTPUT_LINES = 2000;
+
+async function run(command: string, cwd: string, timeout = getConfig().jobs.queryTimeout * 1000) {
 	return await executePowerShell({ command, workingDirectory: cwd, timeout });
 }
 
-/** Convert bash-style `VAR=value cmd` to PowerShell `$env:VAR = 'value'; cmd` */
-function bashEnvToPS(command: string): string {
-	const m = command.match(/^(\s*)([A-Z_][A-Z0-9_]*)\s*=\s*('[^']*'|"[^"]*"|\S*)(\s+.+)$/);
-	if (!m) return command;
-	const val = m[3].replace(/^['"]|['"]$/g, '').replace(/'/g, "''");
-	return `${m[1]}$env:${m[2]} = '${val}';${m[4]}`;
+/** Query OS start times (ISO, UTC) for the given PIDs. PIDs with no live process are absent. */
+async function getProcessStartTimes(pids: number[], cwd: string): Promise<Map<number, string>> {
+	const times = new Map<number, string>();
+	if (pids.length === 0) return times;
+	const r = await run(
+		`@(${pids.join(',')}) | ForEach-Object { $p = Get-Process -Id $_ -ErrorAction SilentlyContinue; if ($p) { "$_|$($p.StartTime.ToUniversalTime().ToString('o'))" } }`,
+		cwd
+	);
+	for (const line of r.stdout.split('\n')) {
+		const [pid, startTime] = line.trim().split('|');
+		if (pid && startTime) times.set(parseInt(pid, 10), startTime);
+	}
+	return times;
+}
+
+/** Whether a job's process is still alive — and is still the process we started, not a reused PID */
+async function isJobRunning(job: TrackedJob, cwd: string): Promise<boolean> {
+	if (job.exited) return false;
+	const times = await getProcessStartTimes([job.pid], cwd);
+	// Jobs started before start times were recorded can only be checked by PID
+	const running = job.processStartTime ? isSameProcess(job, times.get(job.pid)) : times.has(job.pid);
+	if (!running) {
+		markFinished(job);
+		saveJobs();
+	}
+	return running;
+}
+
+function summarize(job: TrackedJob, running: boolean): JobSummary {
+	return { name: job.name, state: getJobState(job, running), exitCode: job.exitCode, durationMs: getJobDuration(job, running) };
+}
+
+let restoring: Promise<void> = Promise.resolve();
+
+/**
+ * Reload the persisted job registry for a project and reattach to its processes.
+ * A job is only trusted if its PID is alive with the same start time as recorded;
+ * anything else is kept in the list but marked as exited.
+ */
+export function restoreJobs(projectDir: string): Promise<void> {
+	restoring = (async () => {
+		const loaded = loadJobs(projectDir).filter(job => !job.exited);
+		if (loaded.length === 0) return;
+		const times = await getProcessStartTimes(loaded.map(job => job.pid), projectDir);
+		for (const job of loaded) {
+			if (!isSameProcess(job, times.get(job.pid))) markFinished(job);
+		}
+		saveJobs();
+	})().catch(error => {
+		console.warn(`pi-powershell: failed to restore jobs: ${error instanceof Error ? error.message : String(error)}`);
+	});
+	return restoring;
+}
+
+/** Quote a value as a PowerShell single-quoted (literal) string */
+function psLiteral(value: string): string {
+	return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** Kill a job's whole process tree and record it as killed */
+async function stopJob(job: TrackedJob, gracePeriodMs: number): Promise<KillTreeResult> {
+	const tree = await killProcessTree(job.pid, { gracePeriodMs });
+	markFinished(job, true);
+	saveJobs();
+	return tree;
+}
+
+function describeKill(tree: KillTreeResult): string[] {
+	const lines: string[] = [];
+	if (tree.killed.length) lines.push(`Killed PIDs: ${tree.killed.join(', ')}`);
+	if (tree.survived.length) lines.push(`Survived (still running): ${tree.survived.join(', ')}`);
+	return lines;
 }
 
 export function registerJobHelpers(pi: ExtensionAPI): void {
@@ -75,13 +179,26 @@ export function registerJobHelpers(pi: ExtensionAPI): void {
 		label: "PowerShell Start Job",
 		description: `Start a PowerShell background job. Use this instead of & operator which hangs Git Bash. Jobs run as real OS processes that persist across tool calls.
 
-Bash-style env vars (NODE_ENV=production npm start) are auto-converted to PowerShell syntax ($env:NODE_ENV = 'production'; npm start). Batch files (npm, yarn, pnpm) are handled automatically.`,
+Common bash syntax is translated to PowerShell: NODE_ENV=production npm start becomes $env:NODE_ENV = 'production'; npm start, and export, $VAR for names set that way, && / || (on 5.1), 2>/dev/null, which and rm -rf are rewritten too. Ambiguous bash is refused with an explanation; pass translate: false to run the command exactly as written. Batch files (npm, yarn, pnpm) are handled automatically.
+
+READINESS: Pass readyWhen to wait until the job is usable instead of guessing with sleeps — a log regex, a TCP port and/or an HTTP URL (all given criteria must hold). Returns ready, exited early (with log tail) or timed out.`,
 		parameters: Type.Object({
 			name: Type.String({ description: "Unique name for the job (for later reference)" }),
 			command: Type.String({ description: "Command to run in the background job" }),
 			workingDirectory: Type.Optional(Type.String({ description: "Working directory for the job (default: current directory)" })),
 			stdout: Type.Optional(Type.String({ description: "Where to send stdout: file path, or 'null' to discard (default: temp log file)" })),
 			stderr: Type.Optional(Type.String({ description: "Where to send stderr: file path, 'stdout' to merge with stdout, or 'null' to discard (default: 'stdout' — merged)" })),
+			edition: Type.Optional(Type.Union([Type.Literal("core"), Type.Literal("desktop")], {
+				description: "PowerShell edition running the job: 'core' = PowerShell 7, 'desktop' = Windows PowerShell 5.1 (default: PowerShell 7 when installed)",
+			})),
+			translate: Type.Optional(Type.Boolean({ description: "Translate common bash syntax to PowerShell before starting (default: true)" })),
+			readyWhen: Type.Optional(Type.Object({
+				logPattern: Type.Optional(Type.String({ description: "Regex that must appear in the job's log output (e.g. 'Local:.*http')" })),
+				port: Type.Optional(Type.Number({ description: "TCP port that must accept connections" })),
+				host: Type.Optional(Type.String({ description: "Host for the port check (default: localhost)" })),
+				url: Type.Optional(Type.String({ description: "HTTP(S) URL that must return a 2xx status" })),
+				timeout: Type.Optional(Type.Number({ description: "Seconds to wait for readiness (default: 60)" })),
+			}, { description: "Wait until the job is ready before returning. All given criteria must be met." })),
 		}),
 		renderCall: (args, theme) => new Text(
 			theme.fg("toolTitle", theme.bold("pwsh-start-job ")) +
@@ -91,63 +208,145 @@ Bash-style env vars (NODE_ENV=production npm start) are auto-converted to PowerS
 		),
 		renderResult: jobRenderResult,
 
-		async execute(_id, params, _signal, _onUpdate, ctx: ExtensionContext) {
-			const { name, command, workingDirectory, stdout, stderr } = params;
+		async execute(_id, params, signal, onUpdate, ctx: ExtensionContext) {
+			const { name, command, workingDirectory, stdout, stderr, readyWhen, edition, translate = true } = params;
+			await restoring;
 
 			if (jobs.has(name)) {
 				return result(`Job '${name}' already exists (PID ${jobs.get(name)!.pid}). Stop it first.`, { name, success: false });
 			}
 
 			const workDir = workingDirectory || ctx.cwd;
-			const psCommand = bashEnvToPS(command);
+			const { logDir, env: jobEnv, startTimeout } = getConfig().jobs;
+			// Configured job environment first, so the command's own assignments win
+			const envPrefix = Object.entries(jobEnv).map(([key, value]) => `[Environment]::SetEnvironmentVariable(${psLiteral(key)}, ${psLiteral(value)}); `).join('');
+			let host: PowerShellHost;
+			try {
+				host = await resolveHost(edition);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				return result(`Cannot start '${name}': ${message}`, { name, command, success: false, error: message });
+			}
+
+			let jobCommand = command;
+			let rewrites: string[] = [];
+			if (translate) {
+				try {
+					({ command: jobCommand, rewrites } = translateBash(command, { chainOperators: hasChainOperators(host.version) }));
+				} catch (error) {
+					if (!(error instanceof BashTranslationError)) throw error;
+					const message = `Not translated from bash — ${error.message}`;
+					return result(`Cannot start '${name}': ${message}\n\nWrite that part in PowerShell, or pass translate: false.`, { name, command, success: false, error: message });
+				}
+			}
+			const psCommand = envPrefix + jobCommand;
+			try { mkdirSync(logDir, { recursive: true }); } catch { /* reported by Start-Process */ }
 
 			// Resolve stdout/stderr targets
-			const stdoutFile = stdout === 'null' ? null : (stdout || join(tmpdir(), `pi-job-${name}-${instanceId}-stdout.log`));
+			const stdoutFile = stdout === 'null' ? null : (stdout || join(logDir, `pi-job-${name}-${instanceId}-stdout.log`));
 			const stderrTarget = stderr || 'stdout';  // default: merge with stdout
 			const stderrFile = stderrTarget === 'null' ? null
 				: stderrTarget === 'stdout' ? null     // null = merged
 				: stderrTarget;                         // explicit file path
+			const logFiles = [stdoutFile, stderrFile].filter((f): f is string => !!f);
+
+			if (readyWhen) {
+				const invalid = validateReadyCriteria(readyWhen, logFiles);
+				if (invalid) return result(`Cannot start '${name}': ${invalid}`, { name, command, success: false, error: invalid });
+			}
+
+			// A syntax error would otherwise start a job that dies at once, with the error buried in its log
+			const analysis = await analyzeScript(jobCommand, { edition, signal });
+			if (signal?.aborted) {
+				return result(`Cannot start '${name}': cancelled before it started`, { name, command, success: false, error: 'Cancelled', rewrites });
+			}
+			if (analysis && analysis.errors.length > 0) {
+				return result(`Cannot start '${name}': ${describeSyntaxErrors(jobCommand, analysis.errors)}`, {
+					name, command, success: false, error: 'Syntax error', syntaxErrors: analysis.errors, rewrites,
+				});
+			}
+			const blocked = await checkGuard(jobCommand, analysis?.commands, ctx);
+			if (blocked) {
+				return result(`Cannot start '${name}': ${blocked.text}`, { name, command, success: false, error: blocked.error, guard: blocked.guard, rewrites });
+			}
 
 			// Build redirection: PowerShell stream redirection operators
 			// 1> stdout, 2> stderr, *> all streams, 2>&1 merge stderr into stdout
 			let redirect: string;
 			if (stdoutFile && stderrTarget === 'stdout') {
-				redirect = `*> ''${stdoutFile.replace(/'/g, "''")}'`; // all streams → one file
+				redirect = `*> ${psLiteral(stdoutFile)}`; // all streams → one file
 			} else if (stdoutFile && stderrFile) {
-				redirect = `1> ''${stdoutFile.replace(/'/g, "''")}'' 2> ''${stderrFile.replace(/'/g, "''")}'`; // separate files
+				redirect = `1> ${psLiteral(stdoutFile)} 2> ${psLiteral(stderrFile)}`; // separate files
 			} else if (stdoutFile && stderrTarget === 'null') {
-				redirect = `2>$null 1> ''${stdoutFile.replace(/'/g, "''")}'`; // stdout to file, discard stderr
+				redirect = `2>$null 1> ${psLiteral(stdoutFile)}`; // stdout to file, discard stderr
 			} else if (!stdoutFile && stderrFile) {
-				redirect = `1>$null 2> ''${stderrFile.replace(/'/g, "''")}'`; // discard stdout, stderr to file
+				redirect = `1>$null 2> ${psLiteral(stderrFile)}`; // discard stdout, stderr to file
 			} else {
 				redirect = `*>$null`; // discard everything
 			}
 
-			// Start-Process -WindowStyle Hidden: detached, doesn't block.
 			// & { commands } redirect: captures output per configuration.
-			const inner = `Set-Location ''${workDir.replace(/'/g, "''")}''`
-				+ `; ${psCommand.replace(/'/g, "''")}`;
+			// Afterwards the wrapper records the exit code and finish time to a sidecar
+			// status file — a job killed from outside never gets to write it.
+			const statusFile = join(logDir, `pi-job-${name}-${instanceId}-status.json`);
+			const script = `try { & { Set-Location ${psLiteral(workDir)}; ${psCommand} } ${redirect}; $ok = $? } catch { $ok = $false }; `
+				+ `$code = if ($null -ne $LASTEXITCODE) { $LASTEXITCODE } elseif ($ok) { 0 } else { 1 }; `
+				+ `@{ exitCode = $code; finishedAt = (Get-Date).ToUniversalTime().ToString('o') } | ConvertTo-Json -Compress | Set-Content -LiteralPath ${psLiteral(statusFile)}`;
+
+			// Start-Process -WindowStyle Hidden: detached, doesn't block.
 			const r = await run(
-				`$p = Start-Process -FilePath 'pwsh' -ArgumentList '-NoProfile','-Command','& { ${inner} } ${redirect}' -WindowStyle Hidden -PassThru; $p.Id`,
-				ctx.cwd, 10000
+				`Remove-Item -LiteralPath ${psLiteral(statusFile)} -ErrorAction SilentlyContinue; `
+				+ `$p = Start-Process -FilePath ${psLiteral(host.path)} -ArgumentList '-NoProfile','-Command',${psLiteral(script)} -WindowStyle Hidden -PassThru; "$($p.Id)|$($p.StartTime.ToUniversalTime().ToString('o'))"`,
+				ctx.cwd, startTimeout * 1000
 			);
 
 			if (!r.success || !r.stdout.trim()) {
 				return result(`Failed to start '${name}': ${r.stderr || r.stdout}`, { name, command, success: false, error: r.stderr });
 			}
 
-			const pid = parseInt(r.stdout.trim(), 10);
+			const [pidText, processStartTime] = r.stdout.trim().split('|');
+			const pid = parseInt(pidText, 10);
 			if (isNaN(pid)) {
 				return result(`Failed to parse PID for '${name}': ${r.stdout}`, { name, command, success: false });
 			}
 
-			jobs.set(name, { pid, name, command, workingDirectory: workDir, stdoutFile, stderrFile, startedAt: new Date() });
+			jobs.set(name, { pid, name, command, workingDirectory: workDir, stdoutFile, stderrFile, statusFile, startedAt: new Date(), processStartTime });
+			saveJobs();
 
 			const parts = [`Started '${name}' (PID ${pid})`];
+			if (rewrites.length > 0) parts.push(`Translated from bash: ${rewrites.join('; ')}`);
 			if (stdoutFile) parts.push(`stdout → ${stdoutFile}`);
 			if (stderrFile) parts.push(`stderr → ${stderrFile}`);
 			else if (stderrTarget === 'stdout') parts.push(`stderr → merged with stdout`);
-			return result(parts.join('\n'), { name, command, pid, success: true });
+
+			if (!readyWhen) return result(parts.join('\n'), { name, command, pid, success: true, rewrites });
+
+			const onProgress = onUpdate ? (elapsedMs: number, pending: string[]) => {
+				onUpdate({
+					content: [{ type: "text", text: `Waiting for '${name}' (${Math.round(elapsedMs / 1000)}s): ${pending.join(', ')}` }],
+					details: { name, command, pid, success: true },
+				});
+			} : undefined;
+
+			const ready = await waitForReady(
+				{ pid, logFiles },
+				{ ...readyWhen, timeout: (readyWhen.timeout ?? 60) * 1000 },
+				onProgress,
+				undefined,
+				signal,
+			);
+			const seconds = (ready.elapsedMs / 1000).toFixed(1);
+			if (ready.status === 'ready') {
+				parts.push(`Ready after ${seconds}s`);
+			} else if (ready.status === 'cancelled') {
+				parts.push(`Stopped waiting after ${seconds}s (cancelled) — the job is still running. Waiting for: ${ready.pending.join(', ')}`);
+			} else if (ready.status === 'exited') {
+				parts.push(`Exited before becoming ready (after ${seconds}s). Waiting for: ${ready.pending.join(', ')}`);
+			} else {
+				parts.push(`Not ready after ${seconds}s — still running. Waiting for: ${ready.pending.join(', ')}`);
+			}
+			if (ready.logTail) parts.push(`\nLog tail:\n${ready.logTail}`);
+			return result(parts.join('\n'), { name, command, pid, success: ready.status === 'ready', ready, rewrites });
 		}
 	});
 
@@ -164,54 +363,67 @@ Bash-style env vars (NODE_ENV=production npm start) are auto-converted to PowerS
 
 		async execute(_id, params, _signal, _onUpdate, ctx: ExtensionContext) {
 			const { name, includeOutput = false } = params;
+			await restoring;
 
 			if (name) {
 				const job = jobs.get(name);
 				if (!job) return result(`Job '${name}' not found`, { name, success: false });
 
-				const r = await run(`Get-Process -Id ${job.pid} -ErrorAction SilentlyContinue | Select-Object Id, ProcessName, CPU, WorkingSet64 | ConvertTo-Json`, ctx.cwd);
-				const running = r.success && r.stdout.trim();
-				let text = `Job '${name}' (PID ${job.pid}) — ${running ? 'Running' : 'Stopped'}\nCommand: ${job.command}\nStarted: ${job.startedAt.toISOString()}`;
+				const running = await isJobRunning(job, ctx.cwd);
+				let text = `Job '${name}' (PID ${job.pid}) — ${formatJobStatus(job, running)}\nCommand: ${job.command}\nStarted: ${job.startedAt.toISOString()}`;
+				if (!running && job.finishedAt) text += `\nFinished: ${job.finishedAt.toISOString()}`;
+				text += `\nRuntime: ${formatDuration(getJobDuration(job, running))}`;
 
 				if (includeOutput) {
 					if (job.stdoutFile) {
-						const out = await run(`Get-Content '${job.stdoutFile}' -Tail 50 -ErrorAction SilentlyContinue`, ctx.cwd);
-						if (out.stdout) text += `\n\nStdout (last 50 lines):\n${out.stdout}`;
+						const out = readLogWindow(job.stdoutFile, { start: 0, tail: 50 }).text.trimEnd();
+						if (out) text += `\n\nStdout (last 50 lines):\n${out}`;
 					}
 					if (job.stderrFile) {
-						const err = await run(`Get-Content '${job.stderrFile}' -Tail 20 -ErrorAction SilentlyContinue`, ctx.cwd);
-						if (err.stdout) text += `\n\nStderr (last 20 lines):\n${err.stdout}`;
+						const err = readLogWindow(job.stderrFile, { start: 0, tail: 20 }).text.trimEnd();
+						if (err) text += `\n\nStderr (last 20 lines):\n${err}`;
 					}
 				}
 
-				return result(text, { name, pid: job.pid, success: true });
+				return result(text, { ...summarize(job, running), pid: job.pid, success: true });
 			}
 
 			// List all
 			if (jobs.size === 0) return result("No tracked jobs", { success: true });
 			const lines: string[] = [];
+			const summaries: JobSummary[] = [];
 			for (const [jn, job] of jobs) {
-				const r = await run(`Get-Process -Id ${job.pid} -ErrorAction SilentlyContinue`, ctx.cwd);
-				lines.push(`• ${jn} (PID ${job.pid}) — ${(r.success && r.stdout.trim()) ? 'Running' : 'Stopped'} — ${job.command}`);
+				const running = await isJobRunning(job, ctx.cwd);
+				const marker = isFailedJob(job) ? '✗' : '•';
+				lines.push(`${marker} ${jn} (PID ${job.pid}) — ${formatJobStatus(job, running)} — ${job.command}`);
+				summaries.push(summarize(job, running));
 			}
-			return result(`${jobs.size} job(s):\n${lines.join('\n')}`, { success: true });
+			return result(`${jobs.size} job(s):\n${lines.join('\n')}`, { success: true, jobs: summaries });
 		}
 	});
 
 	pi.registerTool({
 		name: "pwsh-stop-job",
 		label: "PowerShell Stop Job",
-		description: "Stop a running PowerShell background job. The job will be terminated but not removed (use remove_job to clean up).",
-		parameters: Type.Object({ name: Type.String({ description: "Name of the job to stop" }) }),
+		description: "Stop a running PowerShell background job and every process it spawned (node, vite, cmd…), so ports are released. Processes get a grace period to exit before being force-killed. The job is terminated but not removed (use remove_job to clean up).",
+		parameters: Type.Object({
+			name: Type.String({ description: "Name of the job to stop" }),
+			gracePeriod: Type.Optional(Type.Number({ description: "Seconds to wait for a graceful exit before force-killing (default: 5)" })),
+		}),
 		renderCall: jobRenderCall,
 		renderResult: jobRenderResult,
 
 		async execute(_id, params, _signal, _onUpdate, ctx: ExtensionContext) {
-			const { name } = params;
+			const { name, gracePeriod = 5 } = params;
+			await restoring;
 			const job = jobs.get(name);
 			if (!job) return result(`Job '${name}' not found`, { name, success: false });
-			await run(`Stop-Process -Id ${job.pid} -Force -ErrorAction SilentlyContinue`, ctx.cwd);
-			return result(`Stopped '${name}' (PID ${job.pid})`, { name, pid: job.pid, success: true });
+			if (!await isJobRunning(job, ctx.cwd)) {
+				return result(`Job '${name}' (PID ${job.pid}) is not running — ${formatJobStatus(job, false)}`, { ...summarize(job, false), pid: job.pid, success: true });
+			}
+			const tree = await stopJob(job, gracePeriod * 1000);
+			const text = [`Stopped '${name}' (PID ${job.pid})`, ...describeKill(tree)].join('\n');
+			return result(text, { name, pid: job.pid, success: tree.survived.length === 0, killed: tree.killed, survived: tree.survived });
 		}
 	});
 
@@ -228,49 +440,87 @@ Bash-style env vars (NODE_ENV=production npm start) are auto-converted to PowerS
 
 		async execute(_id, params, _signal, _onUpdate, ctx: ExtensionContext) {
 			const { name, force = false } = params;
+			await restoring;
 			const job = jobs.get(name);
 			if (!job) return result(`Job '${name}' not found`, { name, success: false });
-			if (force) await run(`Stop-Process -Id ${job.pid} -Force -ErrorAction SilentlyContinue`, ctx.cwd);
-			const files = [job.stdoutFile, job.stderrFile].filter(Boolean).map(f => `'${f}'`).join(',');
+			const lines = [`Removed job '${name}'`];
+			let tree: KillTreeResult | undefined;
+			if (force && await isJobRunning(job, ctx.cwd)) {
+				tree = await stopJob(job, 5000);
+				lines.push(...describeKill(tree));
+			}
+			const files = [job.stdoutFile, job.stderrFile, job.statusFile].filter(Boolean).map(f => `'${f}'`).join(',');
 			if (files) await run(`Remove-Item ${files} -Force -ErrorAction SilentlyContinue`, ctx.cwd);
 			jobs.delete(name);
-			return result(`Removed job '${name}'`, { name, pid: job.pid, success: true });
+			saveJobs();
+			return result(lines.join('\n'), { name, pid: job.pid, success: true, killed: tree?.killed, survived: tree?.survived });
 		}
 	});
 
 	pi.registerTool({
 		name: "pwsh-get-job-output",
 		label: "PowerShell Get Job Output",
-		description: "Receive output from a PowerShell background job. Use 'keep' to preserve output for future calls, or 'consume' to read and clear it.",
+		description: `Receive output from a PowerShell background job. Without options, returns the last 100 lines.
+
+INCREMENTAL: since='last' returns only output produced since the previous consuming read, and moves the job's read cursor forward (pass keep=true to peek without moving it). keep=false consumes whatever is returned. The log file itself is never modified.
+
+WINDOWS: offset starts at a byte offset of the stdout log (e.g. a previous nextOffset); head/tail return the first/last N lines of the selected range.`,
 		parameters: Type.Object({
 			name: Type.String({ description: "Name of the job to get output from" }),
-			keep: Type.Optional(Type.Boolean({ description: "Keep output for future calls (default: true)" })),
+			since: Type.Optional(Type.String({
+				description: "Where to start: 'start' of the log, or 'last' read cursor (only new output)",
+				enum: ["start", "last"]
+			})),
+			offset: Type.Optional(Type.Number({ description: "Byte offset into the stdout log to start from (overrides since)" })),
+			head: Type.Optional(Type.Number({ description: "Return only the first N lines of the range" })),
+			tail: Type.Optional(Type.Number({ description: "Return only the last N lines of the range" })),
+			keep: Type.Optional(Type.Boolean({ description: "Leave the read cursor where it is (default: true, or false with since='last')" })),
 		}),
 		renderCall: jobRenderCall,
 		renderResult: jobRenderResult,
 
-		async execute(_id, params, _signal, _onUpdate, ctx: ExtensionContext) {
-			const { name, keep = true } = params;
+		async execute(_id, params, _signal, _onUpdate, _ctx: ExtensionContext) {
+			const { name, since, offset, head, tail } = params;
+			const keep = params.keep ?? since !== 'last';
+			await restoring;
 			const job = jobs.get(name);
 			if (!job) return result(`Job '${name}' not found`, { name, success: false });
 
+			const cursor = job.cursor ?? { stdout: 0, stderr: 0 };
+			const ranged = since !== undefined || offset !== undefined || head !== undefined || tail !== undefined;
+			// Plain call keeps the old "last 100 lines" view; an open-ended range is capped by lines
+			// so the cursor only advances past output that was actually returned
+			const window = (fallbackTail: number) =>
+				head !== undefined || tail !== undefined ? { head, tail }
+				: ranged ? { head: MAX_OUTPUT_LINES }
+				: { tail: fallbackTail };
+			const startOf = (stream: 'stdout' | 'stderr') =>
+				stream === 'stdout' && offset !== undefined ? offset : since === 'last' ? cursor[stream] : 0;
+
+			const details: JobDetails = { name, pid: job.pid, success: true };
 			let text = '';
 			if (job.stdoutFile) {
-				const out = await run(`Get-Content '${job.stdoutFile}' -Tail 100 -ErrorAction SilentlyContinue`, ctx.cwd);
-				text = out.stdout || "(no output yet)";
+				const out = readLogWindow(job.stdoutFile, { start: startOf('stdout'), ...window(100) });
+				text = out.text.trimEnd() || (since === 'last' ? "(no new output)" : "(no output yet)");
+				if (out.end < out.size) text += `\n\n[more output available — next offset ${out.end} of ${out.size} bytes]`;
+				if (!keep) cursor.stdout = out.end;
+				details.stdout = { start: out.start, end: out.end, size: out.size };
 			} else {
 				text = "(stdout not captured)";
 			}
 			if (job.stderrFile) {
-				const err = await run(`Get-Content '${job.stderrFile}' -Tail 50 -ErrorAction SilentlyContinue`, ctx.cwd);
-				if (err.stdout) text += `\n\nStderr:\n${err.stdout}`;
+				const err = readLogWindow(job.stderrFile, { start: startOf('stderr'), ...window(50) });
+				if (err.text.trim()) text += `\n\nStderr:\n${err.text.trimEnd()}`;
+				if (!keep) cursor.stderr = err.end;
+				details.stderr = { start: err.start, end: err.end, size: err.size };
 			}
 
 			if (!keep) {
-				if (job.stdoutFile) await run(`'' | Set-Content '${job.stdoutFile}'`, ctx.cwd);
-				if (job.stderrFile) await run(`'' | Set-Content '${job.stderrFile}'`, ctx.cwd);
+				job.cursor = cursor;
+				saveJobs();
 			}
-			return result(text, { name, pid: job.pid, success: true });
+			details.cursor = { ...cursor };
+			return result(text, details);
 		}
 	});
-}
+}
\ No newline at end of file
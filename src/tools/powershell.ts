@@ -7,12 +7,41 @@ import { Theme } from "@mariozechner/pi-coding-agent";
 import { Text } from "@mariozechner/pi-tui";
 import { Type } from "@sinclair/typebox";
 import { spawn } from "child_process";
+import { existsSync, readFileSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve as resolvePath } from "path";
+import { randomBytes } from "crypto";
 import { sessionManager } from "../session/session-manager.js";
+import { prepareCredentials } from "./credential-prompt.js";
+import { getConfig } from "../config/config.js";
+import { DEFAULT_RULES, evaluateCommands, describeFindings, unanalyzedVerdict, type GuardFinding } from "../guard/command-guard.js";
+import type { SessionStreams } from "../session/framing.js";
+import { translateBash, hasChainOperators, BashTranslationError } from "./bash-translate.js";
+import { ANALYZE_COMMAND, formatParseErrors, type CommandUse, type ParseError, type ScriptAnalysis } from "./script-analysis.js";
+import { killProcessTree } from "../process/process-tree.js";
+import { resolveHost, describeHost, type PowerShellEdition, type PowerShellHost } from "../process/powershell-host.js";
+import { truncateOutput, exceedsLimits, saveFullOutput, type OutputLimits } from "./truncate.js";
+import { batchCandidate, isBatchResolution, isBatchLaunchError, describeExecutionPath, RESOLVE_COMMAND, type ExecutionPath } from "./command-routing.js";
+import { READ_SCRIPT_PARAMS, validateScriptParameters, buildScriptArgs, formatScriptArgument, type ScriptArgument, type ScriptInfo } from "./script-params.js";
+import { createMarker, wrapStructured, parseStructured, formatStructured, type OutputFormat, type StructuredOptions, type StructuredOutput } from "./structured-output.js";
+import { DEFAULT_CONCURRENCY, resolveTargets, mapWithConcurrency, formatFanOut, summarizeFanOut, hostMatrix, type HostResult } from "./fan-out.js";
 
 export interface PowerShellOptions {
 	command: string;
 	timeout?: number;
 	workingDirectory?: string;
+	/** Extra environment variables, passed to the process as-is (no interpolation) */
+	env?: Record<string, string>;
+	/** Start from a minimal environment (system paths, temp, user profile) instead of inheriting ours */
+	cleanEnv?: boolean;
+	/** Aborting kills the pwsh child and its descendants; partial output is returned */
+	signal?: AbortSignal;
+	/** Serialize the pipeline output as JSON and return it parsed in `structured` */
+	output?: StructuredOptions;
+	/** Run a script with these arguments instead of `command` (which is then only used for display) */
+	file?: { path: string; args: ScriptArgument[] };
+	/** PowerShell edition for this call (default: the configured host) */
+	edition?: PowerShellEdition;
 }
 
 export interface PowerShellResult {
@@ -20,6 +49,15 @@ export interface PowerShellResult {
 	stderr: string;
 	exitCode: number;
 	success: boolean;
+	cancelled?: boolean;
+	/** Stopped at the timeout; stdout/stderr hold what arrived before that */
+	timedOut?: boolean;
+	/** Parsed pipeline objects when `output` was requested; stdout then holds only host output */
+	structured?: StructuredOutput;
+	/** Set by executePowerShell: direct, routed to cmd /c, or retried via cmd /c */
+	executionPath?: ExecutionPath;
+	/** The host that ran the command */
+	host?: PowerShellHost;
 }
 
 export interface PowerShellToolResult {
@@ -29,25 +67,124 @@ export interface PowerShellToolResult {
 	error?: string;
 	session?: string;
 	sessionInfo?: any;
+	/** The user aborted the call; output is whatever arrived before that */
+	cancelled?: boolean;
+	/** The command ran past its timeout; output is whatever arrived before that */
+	timedOut?: boolean;
+	format?: OutputFormat;
+	/** Parsed pipeline objects (format: json/csv), capped to maxItems */
+	items?: unknown[];
+	/** Number of objects the command produced, before capping */
+	totalItems?: number;
+	/** Output exceeded the limits; only its head and tail are in the text */
+	truncated?: boolean;
+	/** Temp file with the untruncated stdout/stderr, when truncated */
+	fullOutputPath?: string;
+	executionPath?: ExecutionPath;
+	/** e.g. "PowerShell 7.4.6" */
+	host?: string;
+	/** Time the command took inside the session */
+	durationMs?: number;
+	/** Session error/warning/verbose/debug/information records, when there were any */
+	streams?: SessionStreams;
+	/** Commands ahead of this one in its session (progress updates only) */
+	queued?: number;
+	/** The session was restarted to stop the command, losing its state */
+	recycled?: boolean;
+	/** Set when translate: true rewrote bash syntax; `command` is the PowerShell that ran */
+	translation?: { original: string; rewrites: string[] };
+	/** Fan-out: the sessions the command ran in, and each one's result */
+	sessions?: string[];
+	hosts?: HostResult[];
+	/** Parser errors — the command was not run */
+	syntaxErrors?: ParseError[];
+	/** Set when the command guard stopped the call */
+	guard?: {
+		/** denied by policy, declined by the user, or unconfirmed (no UI to ask) */
+		decision: 'denied' | 'declined' | 'unconfirmed';
+		findings: Array<Omit<GuardFinding, 'rule'>>;
+	};
+}
+
+/** Variables kept by cleanEnv — what pwsh and common tools need to start */
+const ESSENTIAL_ENV = new Set([
+	'PATH', 'PATHEXT', 'SYSTEMROOT', 'SYSTEMDRIVE', 'WINDIR', 'COMSPEC', 'TEMP', 'TMP', 'TMPDIR',
+	'USERPROFILE', 'HOME', 'USERNAME', 'USER', 'APPDATA', 'LOCALAPPDATA', 'PROGRAMDATA',
+	'PROGRAMFILES', 'PROGRAMFILES(X86)', 'PROGRAMW6432', 'COMMONPROGRAMFILES', 'LANG',
+]);
+
+/** Returns an error message for invalid variable names/values, or null */
+export function validateEnv(env: Record<string, string> | undefined): string | null {
+	for (const [key, value] of Object.entries(env ?? {})) {
+		if (!key || /[=\0]/.test(key)) return `Invalid environment variable name: '${key}'`;
+		if (typeof value !== 'string') return `Environment variable '${key}' must be a string`;
+		if (value.includes('\0')) return `Environment variable '${key}' contains a NUL character`;
+	}
+	return null;
+}
+
+/**
+ * Environment for the child process. Windows variable names are case-insensitive,
+ * so an override replaces the inherited variable whatever its casing.
+ */
+export function buildEnvironment(env?: Record<string, string>, cleanEnv = false): NodeJS.ProcessEnv | undefined {
+	if (!env && !cleanEnv) return undefined;
+	const result: NodeJS.ProcessEnv = {};
+	for (const [key, value] of Object.entries(process.env)) {
+		if (!cleanEnv || ESSENTIAL_ENV.has(key.toUpperCase())) result[key] = value;
+	}
+	for (const [key, value] of Object.entries(env ?? {})) {
+		if (process.platform === 'win32') {
+			for (const existing of Object.keys(result)) {
+				if (existing.toUpperCase() === key.toUpperCase()) delete result[existing];
+			}
+		}
+		result[key] = value;
+	}
+	return result;
 }
 
 /** Callback for streaming partial output */
 type OnData = (text: string) => void;
 
+/**
+ * A script call for -Command. The exit code is the script's `exit N`, or else 0/1 from
+ * whether it succeeded — $LASTEXITCODE alone would be $null (0) after a PowerShell error.
+ */
+function scriptInvocation({ path, args }: NonNullable<PowerShellOptions['file']>): string {
+	const call = [`& '${path.replace(/'/g, "''")}'`, ...args.map(formatScriptArgument)].join(' ');
+	return `$global:LASTEXITCODE = $null; ${call}; $__piOk = $?; `
+		+ `exit $(if ($__piOk) { [int]$LASTEXITCODE } elseif ($LASTEXITCODE) { $LASTEXITCODE } else { 1 })`;
+}
+
 /**
  * Direct PowerShell execution. Optionally streams output via onData callback.
  */
 async function executePowerShellDirect(options: PowerShellOptions, onData?: OnData): Promise<PowerShellResult> {
-	const { command, timeout = 30000, workingDirectory } = options;
+	const { timeout = 30000, workingDirectory, env, cleanEnv, signal, output, file, edition } = options;
+	const marker = output ? createMarker() : '';
+	const command = output ? wrapStructured(options.command, marker, output.depth) : options.command;
 
 	// Force UTF-8 output encoding so non-ASCII characters (accents, etc.) aren't mangled
-	const utf8Prefix = '[Console]::OutputEncoding = [System.Text.Encoding]::UTF8; $OutputEncoding = [System.Text.Encoding]::UTF8; ';
+	const utf8Prefix = getConfig().utf8 ? '[Console]::OutputEncoding = [System.Text.Encoding]::UTF8; $OutputEncoding = [System.Text.Encoding]::UTF8; ' : '';
 
-	return new Promise((resolve) => {
-		const child = spawn('pwsh', [
-			'-NoProfile', '-NonInteractive', '-ExecutionPolicy', 'Bypass', '-Command', utf8Prefix + command
-		], {
+	if (signal?.aborted) {
+		return { stdout: '', stderr: 'Command cancelled before it started', exitCode: -1, success: false, cancelled: true };
+	}
+
+	let host: PowerShellHost;
+	try {
+		host = await resolveHost(edition);
+	} catch (error) {
+		return { stdout: '', stderr: error instanceof Error ? error.message : String(error), exitCode: -1, success: false };
+	}
+
+	return new Promise<PowerShellResult>((resolve) => {
+		// Scripts go through -Command too, so they get the same output encoding
+		const script = file ? scriptInvocation(file) : command;
+		const child = spawn(host.path, ['-NoProfile', '-NonInteractive', '-ExecutionPolicy', 'Bypass', '-Command', utf8Prefix + script], {
 			cwd: workingDirectory,
+			env: buildEnvironment(env, cleanEnv),
 			stdio: 'pipe',
 			shell: false,
 		});
@@ -55,11 +192,25 @@ async function executePowerShellDirect(options: PowerShellOptions, onData?: OnDa
 		let stdout = '';
 		let stderr = '';
 		let timeoutId: NodeJS.Timeout | null = null;
+		let cancelled = false;
+
+		// Killing only `pwsh` would orphan whatever it launched (node, cmd, ...)
+		const killTree = () => {
+			if (child.pid) void killProcessTree(child.pid, { gracePeriodMs: 0 }).finally(() => child.kill('SIGKILL'));
+			else child.kill('SIGKILL');
+		};
+		const onAbort = () => {
+			cancelled = true;
+			if (timeoutId) clearTimeout(timeoutId);
+			killTree();
+		};
+		signal?.addEventListener('abort', onAbort, { once: true });
 
 		if (timeout > 0) {
 			timeoutId = setTimeout(() => {
-				child.kill('SIGTERM');
-				resolve({ stdout, stderr: stderr + `\nCommand timed out after ${timeout}ms`, exitCode: -1, success: false });
+				signal?.removeEventListener('abort', onAbort);
+				killTree();
+				resolve({ stdout, stderr: stderr + `\nCommand timed out after ${timeout}ms`, exitCode: -1, success: false, timedOut: true });
 			}, timeout);
 		}
 
@@ -75,34 +226,89 @@ async function executePowerShellDirect(options: PowerShellOptions, onData?: OnDa
 
 		child.on('close', (code) => {
 			if (timeoutId) clearTimeout(timeoutId);
-			resolve({ stdout: stdout.trim(), stderr: stderr.trim(), exitCode: code ?? 0, success: (code ?? 0) === 0 });
+			signal?.removeEventListener('abort', onAbort);
+			if (cancelled) {
+				resolve({ stdout: stdout.trim(), stderr: stderr.trim(), exitCode: -1, success: false, cancelled: true, host });
+				return;
+			}
+			const structured = output ? parseStructured(stdout, marker, output.maxItems) ?? undefined : undefined;
+			// The wrapper's own serialization succeeds, so the command's outcome comes from the marker
+			const status = structured?.status;
+			const exitCode = status ? (status.success ? 0 : status.exitCode || 1) : code ?? 0;
+			resolve({
+				stdout: structured ? structured.hostOutput : stdout.trim(),
+				stderr: stderr.trim(),
+				exitCode,
+				success: exitCode === 0,
+				structured,
+				host,
+			});
 		});
 
 		child.on('error', (err) => {
 			if (timeoutId) clearTimeout(timeoutId);
-			resolve({ stdout, stderr: `Failed to start PowerShell: ${err.message}`, exitCode: -1, success: false });
+			signal?.removeEventListener('abort', onAbort);
+			resolve({ stdout, stderr: `Failed to start PowerShell (${host.path}): ${err.message}`, exitCode: -1, success: false, host });
 		});
 	});
 }
 
+/** Pre-flight results by program name, working directory and PATH */
+const resolutionCache = new Map<string, boolean>();
+
+/** The program the pre-flight has to resolve, and its cache key; undefined when it can't be a batch file */
+function preflightTarget(options: PowerShellOptions): { name: string; key: string } | undefined {
+	const name = batchCandidate(options.command);
+	if (!name || process.platform !== 'win32') return undefined;
+	const env = buildEnvironment(options.env, options.cleanEnv) ?? process.env;
+	return { name, key: [name.toLowerCase(), options.workingDirectory ?? '', env.PATH ?? env.Path ?? ''].join('\0') };
+}
+
+/**
+ * Whether the command's program resolves to a .cmd/.bat file. Resolved in a pwsh with
+ * the command's own directory and environment, so PATH overrides are honored. Usually
+ * answered from the cache, filled by analyzeScript's pre-flight.
+ */
+async function resolvesToBatchFile(options: PowerShellOptions): Promise<boolean> {
+	const target = preflightTarget(options);
+	if (!target) return false;
+	const { name, key } = target;
+	const cached = resolutionCache.get(key);
+	if (cached !== undefined) return cached;
+
+	const result = await executePowerShellDirect({
+		command: RESOLVE_COMMAND,
+		timeout: 5000,
+		workingDirectory: options.workingDirectory,
+		env: { ...options.env, PI_RESOLVE_NAME: name },
+		cleanEnv: options.cleanEnv,
+		signal: options.signal,
+		edition: options.edition,
+	});
+	if (!result.success) return false;
+	const isBatch = isBatchResolution(result.stdout);
+	resolutionCache.set(key, isBatch);
+	return isBatch;
+}
+
 /**
- * Execute PowerShell command with error recovery for batch files.
+ * Execute PowerShell command, routing batch files through cmd /c. Commands that resolve
+ * to a .cmd/.bat go to cmd directly; a batch-file launch error still triggers a retry
+ * as a fallback for commands the pre-flight can't see into.
  */
 export async function executePowerShell(options: PowerShellOptions, onData?: OnData): Promise<PowerShellResult> {
-	const { command, timeout = 30000, workingDirectory } = options;
-	
-	const firstResult = await executePowerShellDirect({ command, timeout, workingDirectory }, onData);
-	
-	// Retry with cmd /c if batch file error
-	const isWin32Error = firstResult.stderr.includes('no es una aplicación Win32 válida') ||
-						firstResult.stderr.includes('is not a valid Win32 application') ||
-						firstResult.stderr.includes('cannot run due to the error');
-	
-	if (!firstResult.success && isWin32Error) {
-		return await executePowerShellDirect({ command: `cmd /c "${command}"`, timeout, workingDirectory }, onData);
-	}
-	
-	return firstResult;
+	const { command, ...rest } = options;
+	if (options.file) return { ...await executePowerShellDirect(options, onData), executionPath: 'file' };
+
+	if (await resolvesToBatchFile(options)) {
+		return { ...await executePowerShellDirect({ ...rest, command: `cmd /c "${command}"` }, onData), executionPath: 'cmd' };
+	}
+
+	const firstResult = await executePowerShellDirect(options, onData);
+	if (firstResult.cancelled || firstResult.success || !isBatchLaunchError(firstResult.stderr)) {
+		return { ...firstResult, executionPath: 'powershell' };
+	}
+	return { ...await executePowerShellDirect({ ...rest, command: `cmd /c "${command}"` }, onData), executionPath: 'cmd-retry' };
 }
 
 function createResult(text: string, details: PowerShellToolResult): AgentToolResult<PowerShellToolResult> {
@@ -112,25 +318,137 @@ function createResult(text: string, details: PowerShellToolResult): AgentToolRes
 	};
 }
 
-/** Truncate output to reasonable limits */
-function truncateOutput(text: string): string {
-	if (!text) return "(no output)";
-	const maxLines = 2000;
-	const maxBytes = 50 * 1024;
-	let output = text;
-	let truncated = false;
+/** Append the bash rewrites to the result text and details */
+function withTranslation(result: AgentToolResult<PowerShellToolResult>, translation: PowerShellToolResult['translation']): AgentToolResult<PowerShellToolResult> {
+	if (!translation) return result;
+	const note = `[Translated from bash: ${translation.rewrites.join('; ')}]`;
+	return {
+		content: result.content.map(c => c.type === 'text' ? { ...c, text: `${c.text}\n${note}` } : c),
+		details: { ...result.details, translation },
+	};
+}
 
-	const lines = output.split('\n');
-	if (lines.length > maxLines) {
-		output = lines.slice(0, maxLines).join('\n');
-		truncated = true;
+function withCancelNotice(output: string, cancelled: boolean | undefined): string {
+	return cancelled ? `${output}\n[Cancelled — command and its child processes were terminated]` : output;
+}
+
+interface RunOptions {
+	signal?: AbortSignal;
+	/** Structured (json/csv) output */
+	output?: StructuredOptions;
+	/** Per-call truncation limits */
+	limits?: OutputLimits;
+	env?: Record<string, string>;
+	cleanEnv?: boolean;
+	file?: PowerShellOptions['file'];
+	edition?: PowerShellEdition;
+	/** Lets sessions defined in the config prompt for their password */
+	ctx?: ExtensionContext;
+}
+
+/**
+ * Text for the agent: a table/CSV of the parsed objects when structured output was
+ * requested and produced, otherwise stdout + stderr. Output over the limits is cut to
+ * its head and tail, and the full text is saved to a temp file.
+ */
+function formatOutput(
+	stdout: string,
+	stderr: string,
+	structured: StructuredOutput | undefined,
+	options: RunOptions,
+): { text: string; truncated?: boolean; fullOutputPath?: string } {
+	const { output, limits } = options;
+	if (structured && output) {
+		const text = formatStructured(structured, output.format);
+		return { text: stderr ? `${text}\n\n${truncateOutput(stderr, limits)}` : text };
 	}
-	if (Buffer.byteLength(output, 'utf8') > maxBytes) {
-		output = Buffer.from(output, 'utf8').subarray(0, maxBytes).toString('utf8');
-		truncated = true;
+
+	const combined = [stdout, stderr].filter(Boolean).join('\n');
+	if (!exceedsLimits(combined, limits)) return { text: truncateOutput(combined, limits) };
+	const fullOutputPath = saveFullOutput(stdout, stderr, getConfig().output.dir);
+	return { text: truncateOutput(combined, limits, fullOutputPath), truncated: true, fullOutputPath };
+}
+
+function structuredDetails(structured: StructuredOutput | undefined, output: StructuredOptions | undefined): Partial<PowerShellToolResult> {
+	if (!output) return {};
+	return { format: output.format, items: structured?.items, totalItems: structured?.totalItems };
+}
+
+/** Sessions defined in the config are created on first use */
+async function ensureDefinedSession(session: string, ctx: ExtensionContext | undefined): Promise<void> {
+	const definition = getConfig().sessions[session];
+	if (sessionManager.getSession(session) || !definition) return;
+	const defined = { ...definition, timeout: definition.timeout ? definition.timeout * 1000 : undefined };
+	const { options: sessionOptions, password } = ctx ? await prepareCredentials(session, defined, ctx) : { options: defined, password: undefined };
+	await sessionManager.createSession(session, sessionOptions, password);
+}
+
+/** Each host's share of the output limits, so a fan-out result stays about one result's size */
+function perHostLimits(limits: OutputLimits | undefined, hosts: number): OutputLimits {
+	const { maxLines = getConfig().output.maxLines, maxBytes = getConfig().output.maxBytes } = limits ?? {};
+	return { maxLines: Math.max(20, Math.floor(maxLines / hosts)), maxBytes: Math.max(1024, Math.floor(maxBytes / hosts)) };
+}
+
+/**
+ * Run `command` in every session `selectors` picks, `concurrency` sessions at a time.
+ * Sessions defined in the config are created first, one by one, so password prompts
+ * don't overlap.
+ */
+async function runFanOut(
+	command: string,
+	selectors: string[],
+	timeoutMs: number,
+	concurrency: number,
+	onUpdate?: AgentToolUpdateCallback<PowerShellToolResult>,
+	options: RunOptions = {},
+): Promise<AgentToolResult<PowerShellToolResult>> {
+	const fail = (error: string) => createResult(error, { exitCode: -1, success: false, command, error });
+	const { names, unmatched } = resolveTargets(selectors, sessionManager.listSessions(), getConfig().sessions);
+	if (unmatched.length > 0) return fail(`No sessions match ${unmatched.join(', ')}`);
+	if (names.length === 0) return fail('sessions is empty — give session names or tag:<tag> selectors');
+
+	const unavailable = new Map<string, string>();
+	for (const name of names) {
+		try {
+			await ensureDefinedSession(name, options.ctx);
+		} catch (error) {
+			unavailable.set(name, error instanceof Error ? error.message : String(error));
+		}
 	}
-	if (truncated) output += '\n... [Output truncated]';
-	return output;
+
+	const limits = perHostLimits(options.limits, names.length);
+	const finished: HostResult[] = [];
+	const hosts = await mapWithConcurrency(names, Math.max(1, Math.floor(concurrency)), async (name): Promise<HostResult> => {
+		const computerName = sessionManager.getSession(name)?.computerName ?? name;
+		const error = unavailable.get(name);
+		const host: HostResult = error
+			? { session: name, computerName, success: false, exitCode: -1, output: `Session could not be created: ${error}` }
+			: await runCommand(command, timeoutMs, '', name, executePowerShell, undefined, { ...options, limits }).then(({ content, details }) => ({
+				session: name,
+				computerName,
+				success: details.success,
+				exitCode: details.exitCode,
+				durationMs: details.durationMs,
+				cancelled: details.cancelled,
+				output: content[0]?.type === "text" ? content[0].text : '',
+			}));
+		finished.push(host);
+		onUpdate?.({
+			content: [{ type: "text", text: `${finished.length} of ${names.length} done — ${summarizeFanOut(finished)}` }],
+			details: { exitCode: -1, success: true, command, sessions: names, hosts: [...finished] },
+		});
+		return host;
+	});
+
+	const success = hosts.every(h => h.success);
+	return createResult(formatFanOut(hosts), {
+		exitCode: success ? 0 : 1,
+		success,
+		command,
+		sessions: names,
+		hosts,
+		cancelled: hosts.some(h => h.cancelled) || undefined,
+	});
 }
 
 /** Execute command with streaming support, returning formatted result */
@@ -141,33 +459,63 @@ async function runCommand(
 	session: string | undefined,
 	executor: (opts: PowerShellOptions, onData?: OnData) => Promise<PowerShellResult>,
 	onUpdate?: AgentToolUpdateCallback<PowerShellToolResult>,
+	options: RunOptions = {},
 ): Promise<AgentToolResult<PowerShellToolResult>> {
+	const { signal, output, limits, env, cleanEnv, file, edition, ctx } = options;
 	try {
 		if (session) {
-			const sessionResult = await sessionManager.executeInSession(session, command, timeoutMs);
-			const output = [sessionResult.stdout, sessionResult.stderr].filter(Boolean).join('\n');
-			return createResult(truncateOutput(output), {
-				exitCode: sessionResult.success ? 0 : 1,
-				success: sessionResult.success,
+			await ensureDefinedSession(session, ctx);
+			const marker = output ? createMarker() : '';
+			const sessionCommand = output ? wrapStructured(command, marker, output.depth) : command;
+			const onQueued = onUpdate ? (ahead: number) => {
+				onUpdate({
+					content: [{ type: "text", text: `Waiting in session '${session}' — ${ahead} command(s) ahead` }],
+					details: { exitCode: -1, success: true, command, session, queued: ahead },
+				});
+			} : undefined;
+			const sessionResult = await sessionManager.executeInSession(session, sessionCommand, timeoutMs, signal, onQueued);
+			const structured = output ? parseStructured(sessionResult.stdout, marker, output.maxItems) ?? undefined : undefined;
+			const stdout = structured ? structured.hostOutput : sessionResult.stdout;
+			const { text, truncated, fullOutputPath } = formatOutput(stdout, sessionResult.stderr, structured, options);
+			const { streams, durationMs } = sessionResult;
+			const success = sessionResult.success && (structured?.status?.success ?? true);
+			const exitCode = structured?.status ? structured.status.exitCode : sessionResult.exitCode;
+			return createResult(withCancelNotice(text, sessionResult.cancelled), {
+				exitCode: exitCode ?? (success ? 0 : 1),
+				success,
 				command, session,
-				sessionInfo: sessionResult.sessionInfo
+				sessionInfo: sessionResult.sessionInfo,
+				durationMs,
+				streams: streams && Object.values(streams).some(records => records.length > 0) ? streams : undefined,
+				cancelled: sessionResult.cancelled,
+				timedOut: sessionResult.timedOut,
+				recycled: sessionResult.recycled,
+				truncated, fullOutputPath,
+				...structuredDetails(structured, output),
 			});
 		}
 
 		// Stream partial output via onUpdate
 		const onData = onUpdate ? (partialStdout: string) => {
 			onUpdate({
-				content: [{ type: "text", text: truncateOutput(partialStdout) }],
+				content: [{ type: "text", text: truncateOutput(partialStdout, limits) }],
 				details: { exitCode: -1, success: true, command },
 			});
 		} : undefined;
 
-		const result = await executor({ command, timeout: timeoutMs, workingDirectory }, onData);
-		const output = [result.stdout, result.stderr].filter(Boolean).join('\n');
-		return createResult(truncateOutput(output), {
+		const result = await executor({ command, timeout: timeoutMs, workingDirectory, env, cleanEnv, signal, output, file, edition }, onData);
+		const { text, truncated, fullOutputPath } = formatOutput(result.stdout, result.stderr, result.structured, options);
+		const routed = describeExecutionPath(result.executionPath);
+		return createResult(withCancelNotice(routed ? `${text}\n${routed}` : text, result.cancelled), {
 			exitCode: result.exitCode,
 			success: result.success,
 			command,
+			cancelled: result.cancelled,
+			timedOut: result.timedOut,
+			truncated, fullOutputPath,
+			executionPath: result.executionPath,
+			host: result.host ? describeHost(result.host) : undefined,
+			...structuredDetails(result.structured, output),
 		});
 	} catch (error) {
 		return createResult(
@@ -178,10 +526,11 @@ async function runCommand(
 }
 
 /** Shared renderCall for PowerShell tools — shows command like bash does */
-function psRenderCall(args: { command: string; session?: string }, theme: Theme) {
+function psRenderCall(args: { command: string; session?: string; sessions?: string[] }, theme: Theme) {
 	const cmd = args.command.length > 120 ? args.command.slice(0, 117) + '...' : args.command;
 	let text = theme.fg("toolTitle", theme.bold("PS> ")) + theme.fg("toolOutput", cmd);
 	if (args.session) text += theme.fg("muted", ` [${args.session}]`);
+	if (args.sessions) text += theme.fg("muted", ` [${args.sessions.join(', ')}]`);
 	return new Text(text, 0, 0);
 }
 
@@ -191,6 +540,16 @@ function psRenderResult(result: AgentToolResult<PowerShellToolResult>, options:
 	const textContent = result.content[0];
 	const output = textContent?.type === "text" ? textContent.text : "";
 
+	// Fan-out: which hosts failed at a glance, the per-host output when expanded
+	if (details?.hosts) {
+		const matrix = hostMatrix(details.hosts, theme).join('\n');
+		return new Text(options.expanded ? `${matrix}\n\n${theme.fg("toolOutput", output)}` : matrix, 0, 0);
+	}
+
+	if (details?.cancelled) {
+		return new Text(theme.fg("warning", options.expanded ? output : "Cancelled"), 0, 0);
+	}
+
 	if (!details?.success) {
 		return new Text(theme.fg("error", output || "Command failed"), 0, 0);
 	}
@@ -199,6 +558,12 @@ function psRenderResult(result: AgentToolResult<PowerShellToolResult>, options:
 		return new Text(theme.fg("muted", "(no output)"), 0, 0);
 	}
 
+	if (!options.expanded && details.totalItems !== undefined) {
+		const kept = details.items?.length ?? 0;
+		const count = kept < details.totalItems ? `${details.totalItems} items (${kept} kept)` : `${details.totalItems} item${details.totalItems === 1 ? '' : 's'}`;
+		return new Text(theme.fg("toolOutput", `${details.format?.toUpperCase()}: `) + theme.fg("muted", count), 0, 0);
+	}
+
 	if (!options.expanded) {
 		// Collapsed: show first line + line count
 		const lines = output.split('\n');
@@ -211,10 +576,168 @@ function psRenderResult(result: AgentToolResult<PowerShellToolResult>, options:
 	return new Text(theme.fg("toolOutput", output), 0, 0);
 }
 
+/** Per-call limits over the configured ones */
+function outputLimits(maxLines?: number, maxBytes?: number): OutputLimits {
+	const { output } = getConfig();
+	return { maxLines: maxLines ?? output.maxLines, maxBytes: maxBytes ?? output.maxBytes };
+}
+
+const editionParam = Type.Optional(Type.Union([
+	Type.Literal("core"),
+	Type.Literal("desktop"),
+], { description: "PowerShell edition: 'core' = PowerShell 7 (pwsh), 'desktop' = Windows PowerShell 5.1 (default: configured host, preferring PowerShell 7)" }));
+
 const psParams = Type.Object({
 	command: Type.String({ description: "PowerShell command or script to execute" }),
-	timeout: Type.Optional(Type.Number({ description: "Timeout in seconds (default: 30)" })),
+	timeout: Type.Optional(Type.Number({ description: "Timeout in seconds (default: 30, configurable)" })),
 	session: Type.Optional(Type.String({ description: "PSSession name for remote execution. Create with pwsh-create-session first." })),
+	sessions: Type.Optional(Type.Array(Type.String(), { description: "Run in several PSSessions in parallel: session names, or 'tag:<tag>' for every session with that tag. Results come back per host. Instead of session" })),
+	concurrency: Type.Optional(Type.Number({ description: `With sessions: how many sessions run the command at once (default: ${DEFAULT_CONCURRENCY})` })),
+	format: Type.Optional(Type.Union([
+		Type.Literal("text"),
+		Type.Literal("json"),
+		Type.Literal("csv"),
+	], { description: "Output format. 'json' serializes the pipeline objects and returns a table summary; 'csv' returns them as CSV (default: text)" })),
+	depth: Type.Optional(Type.Number({ description: "ConvertTo-Json depth for format json/csv (default: 3)" })),
+	maxItems: Type.Optional(Type.Number({ description: "Maximum objects returned for format json/csv (default: 200)" })),
+	maxLines: Type.Optional(Type.Number({ description: "Maximum output lines before truncating to head + tail (default: 2000)" })),
+	maxBytes: Type.Optional(Type.Number({ description: "Maximum output bytes before truncating to head + tail (default: 51200)" })),
+	workingDirectory: Type.Optional(Type.String({ description: "Directory to run in, absolute or relative to the project (default: project directory)" })),
+	env: Type.Optional(Type.Record(Type.String(), Type.String(), { description: "Environment variables for this call, passed as-is without quoting or interpolation" })),
+	cleanEnv: Type.Optional(Type.Boolean({ description: "Start from a minimal environment (system paths, temp, user profile) instead of inheriting pi's (default: false)" })),
+	edition: editionParam,
+	translate: Type.Optional(Type.Boolean({ description: "Translate common bash syntax (VAR=value, export, $VAR for names set that way, &&/|| on PowerShell 5.1, 2>/dev/null, which, rm -rf) to PowerShell first; refuses what it can't translate unambiguously (default: false)" })),
+});
+
+/** Read a script's param() block with the PowerShell parser — the script itself is not run */
+async function readScriptInfo(path: string, cwd: string, edition?: PowerShellEdition): Promise<ScriptInfo | string> {
+	const result = await executePowerShell({
+		command: READ_SCRIPT_PARAMS,
+		edition,
+		workingDirectory: cwd,
+		env: { PI_SCRIPT_PATH: path },
+		output: { format: 'json', depth: 4 },
+		timeout: 15000,
+	});
+	const info = result.structured?.items[0] as ScriptInfo | undefined;
+	if (!result.success || !info) return result.stderr || result.stdout || 'Could not read the script parameters';
+	return info;
+}
+
+export interface AnalyzeOptions extends Pick<PowerShellOptions, 'edition' | 'signal' | 'workingDirectory' | 'env' | 'cleanEnv'> {
+	/** The command runs locally next: resolve its program for the batch-file pre-flight in the same pwsh */
+	preflight?: boolean;
+}
+
+/**
+ * Parse a command with PowerShell's parser (nothing is run). Undefined when the
+ * analysis itself fails — no host, timeout, cancelled: callers skip the syntax check
+ * and let PowerShell report any problem at run time, but the guard asks before running it.
+ */
+export async function analyzeScript(command: string, options: AnalyzeOptions = {}): Promise<ScriptAnalysis | undefined> {
+	const { preflight, edition, signal, ...run } = options;
+	const target = preflight ? preflightTarget({ ...run, command }) : undefined;
+	const resolve = target && !resolutionCache.has(target.key) ? target : undefined;
+	// A file rather than an env var: long scripts exceed the 32K environment block
+	const file = join(tmpdir(), `pi-ps-analyze-${randomBytes(6).toString('hex')}.ps1`);
+	try {
+		writeFileSync(file, '\uFEFF' + command, 'utf8');
+		const result = await executePowerShellDirect({
+			command: resolve
+				? `${ANALYZE_COMMAND} | Add-Member -NotePropertyName resolution -NotePropertyValue $(${RESOLVE_COMMAND}) -PassThru`
+				: ANALYZE_COMMAND,
+			// The pre-flight resolves with the command's own directory and PATH
+			...(resolve ? run : {}),
+			env: { ...(resolve ? run.env : {}), PI_ANALYZE_FILE: file, ...(resolve ? { PI_RESOLVE_NAME: resolve.name } : {}) },
+			output: { format: 'json', depth: 4 },
+			timeout: 15000,
+			signal,
+			edition,
+		});
+		const analysis = result.structured?.items[0] as (ScriptAnalysis & { resolution?: string }) | undefined;
+		if (!result.success || !analysis) return undefined;
+		if (resolve) resolutionCache.set(resolve.key, isBatchResolution(analysis.resolution ?? ''));
+		return { commands: analysis.commands ?? [], errors: analysis.errors ?? [] };
+	} catch {
+		return undefined;
+	} finally {
+		try { unlinkSync(file); } catch { }
+	}
+}
+
+/** "Syntax error — not run" text for a command that failed to parse */
+export function describeSyntaxErrors(command: string, errors: ParseError[]): string {
+	return `PowerShell could not parse the command (${errors.length} error(s)); nothing was run.\n\n${formatParseErrors(command, errors)}`;
+}
+
+/** Why the command guard stopped a command, for the tool result */
+export interface GuardBlock {
+	text: string;
+	error: string;
+	guard: NonNullable<PowerShellToolResult['guard']>;
+}
+
+/**
+ * Check a command against the guard policy. `uses` is undefined when the command could
+ * not be analyzed; it then needs confirmation like a flagged command. Returns why the
+ * command must not run, or undefined when it may (allowed, or confirmed by the user).
+ */
+export async function checkGuard(command: string, uses: CommandUse[] | undefined, ctx: ExtensionContext): Promise<GuardBlock | undefined> {
+	const { guard } = getConfig();
+	if (!guard.enabled) return undefined;
+	const verdict = uses ? evaluateCommands(uses, [...guard.rules, ...DEFAULT_RULES]) : unanalyzedVerdict();
+	if (verdict.action === 'allow') return undefined;
+
+	const summary = describeFindings(verdict.findings);
+	let decision: 'denied' | 'declined' | 'unconfirmed' = 'denied';
+	if (verdict.action === 'confirm') {
+		if (!ctx.hasUI) {
+			decision = 'unconfirmed';
+		} else if (await ctx.ui.confirm("Run potentially destructive PowerShell command?", `${command}\n\n${summary}`)) {
+			return undefined;
+		} else {
+			decision = 'declined';
+		}
+	}
+
+	const why = {
+		denied: 'denied by the command guard policy',
+		declined: 'declined by the user',
+		unconfirmed: 'needs confirmation, but no interactive UI is available',
+	}[decision];
+	const advice = decision === 'declined' ? 'Ask the user how to proceed instead of retrying.'
+		: !uses ? 'Check that PowerShell is installed and the command is complete, or ask the user to run it.'
+		: 'Use a narrower command (specific paths, no -Recurse on roots), or ask the user to adjust the guard rules in ~/.pi/agent/powershell.json.';
+	return {
+		text: `Command not run — ${why}:\n${summary}\n\n${advice}`,
+		error: why,
+		guard: { decision, findings: verdict.findings.map(({ rule: _rule, ...finding }) => finding) },
+	};
+}
+
+function guardResult(command: string, block: GuardBlock): AgentToolResult<PowerShellToolResult> {
+	return createResult(block.text, { exitCode: -1, success: false, command, error: block.error, guard: block.guard });
+}
+
+/** How a script call reads in the TUI: & 'C:\path\build.ps1' -Name:'value' */
+function describeScriptCall(path: string, args: ScriptArgument[]): string {
+	const quoted = /^[\w.:\\/$-]+$/.test(path) ? path : `'${path.replace(/'/g, "''")}'`;
+	return [`& ${quoted}`, ...args.map(formatScriptArgument)].join(' ');
+}
+
+const scriptParams = Type.Object({
+	path: Type.String({ description: "Path to the .ps1 file, absolute or relative to the project" }),
+	parameters: Type.Optional(Type.Record(
+		Type.String(),
+		Type.Union([Type.String(), Type.Number(), Type.Boolean()]),
+		{ description: "Named script parameters, e.g. { \"Configuration\": \"Release\", \"Clean\": true }. Switches take true/false." },
+	)),
+	timeout: Type.Optional(Type.Number({ description: "Timeout in seconds (default: 30)" })),
+	workingDirectory: Type.Optional(Type.String({ description: "Directory to run in (default: project directory)" })),
+	env: Type.Optional(Type.Record(Type.String(), Type.String(), { description: "Environment variables for this call, passed as-is" })),
+	maxLines: Type.Optional(Type.Number({ description: "Maximum output lines before truncating to head + tail (default: 2000)" })),
+	maxBytes: Type.Optional(Type.Number({ description: "Maximum output bytes before truncating to head + tail (default: 51200)" })),
+	edition: editionParam,
 });
 
 /**
@@ -226,18 +749,130 @@ export function registerPowerShellTool(pi: ExtensionAPI): void {
 		label: "PowerShell",
 		description: `Execute PowerShell commands on Windows. Use for Windows system operations, background job management, process control, service management, registry operations, and any task where Git Bash limitations cause issues.
 
+HOST: Runs in PowerShell 7 (pwsh) when installed, otherwise Windows PowerShell 5.1. Pass edition: "desktop" for modules that only work in 5.1, or "core" to require PowerShell 7.
+
 QUOTING: PowerShell uses different quoting than bash. Single quotes are literal strings (escape with ''). Double quotes allow variable expansion. Backtick (\`) is the escape character, not backslash.
 
-BATCH FILES: npm, yarn, pnpm are .cmd batch files on Windows. If a command fails with "not a valid Win32 application", the tool automatically retries with cmd /c. You can also wrap explicitly: cmd /c "npm run dev"
+BATCH FILES: npm, yarn, pnpm are .cmd batch files on Windows. A plain invocation (npm run build) that resolves to a .cmd/.bat runs via cmd /c automatically, and a batch-file launch error is retried with cmd /c. You can also wrap explicitly: cmd /c "npm run dev"
+
+ENVIRONMENT VARIABLES: Prefer the env parameter: { command: "npm start", env: { NODE_ENV: "production" } } — values are passed verbatim, no quoting needed. Inline, use PowerShell syntax: $env:NODE_ENV = 'production'; npm start (NOT bash-style NODE_ENV=production).
+
+BASH SYNTAX: Write PowerShell. If a command is bash-style anyway, translate: true rewrites VAR=value, export, $VAR for names set that way, && / || (on 5.1), 2>/dev/null, which and rm -rf, and lists the rewrites in the output; it refuses with an explanation when a translation would be a guess.
+
+SYNTAX: Commands are parsed before running; a syntax error comes back with line, column and a caret under the problem, and nothing runs. Fix the reported spot and retry.
+
+GUARD: Destructive commands (recursive deletes, disk formatting, shutdown/restart) are checked against a policy before running: some need the user's confirmation, some are refused. A refused call returns the reason — don't try to work around it.
+
+SEVERAL SESSIONS: sessions: ["web01", "web02"] or ["tag:web"] runs the command in each PSSession in parallel (concurrency at a time). The result has one section per host, then which hosts failed; one failing host doesn't stop the others.
+
+WORKING DIRECTORY: Use the workingDirectory parameter instead of prefixing commands with Set-Location / cd.
+
+STRUCTURED OUTPUT: Set format: "json" (or "csv") to get pipeline objects instead of formatted text — no need to append | ConvertTo-Json. Select the properties you need (Get-Process | Select-Object Name, Id, CPU) to keep results small. Large results keep the first maxItems objects.
 
-ENVIRONMENT VARIABLES: Use PowerShell syntax: $env:NODE_ENV = 'production'; npm start (NOT bash-style NODE_ENV=production).`,
+LONG OUTPUT: Output over maxLines/maxBytes keeps its first and last lines; the full output is saved to a temp file whose path is shown in the truncation notice — read it with Select-String or Get-Content -Tail instead of re-running the command.`,
 		parameters: psParams,
 		renderCall: psRenderCall,
 		renderResult: psRenderResult,
 
-		async execute(_toolCallId, params, _signal, onUpdate, ctx: ExtensionContext) {
-			const { command, timeout = 30, session } = params;
-			return runCommand(command, timeout * 1000, ctx.cwd, session, executePowerShell, onUpdate);
+		async execute(_toolCallId, params, signal, onUpdate, ctx: ExtensionContext) {
+			const { timeout = getConfig().timeout, session, sessions, concurrency = DEFAULT_CONCURRENCY, format = 'text', depth, maxItems, maxLines, maxBytes, workingDirectory, env, cleanEnv, edition, translate } = params;
+			let { command } = params;
+			const fail = (error: string) => createResult(error, { exitCode: -1, success: false, command, error });
+
+			if (session && sessions) {
+				return fail("Give either session or sessions, not both");
+			}
+			if ((session || sessions) && (workingDirectory || env || cleanEnv || edition)) {
+				return fail("workingDirectory, env, cleanEnv and edition apply to local commands only — sessions keep their own host and state");
+			}
+			const cwd = workingDirectory ? resolvePath(ctx.cwd, workingDirectory) : ctx.cwd;
+			if (!existsSync(cwd) || !statSync(cwd).isDirectory()) {
+				return fail(`Working directory not found: ${cwd}`);
+			}
+			const envError = validateEnv(env);
+			if (envError) return fail(envError);
+
+			let translation: PowerShellToolResult['translation'];
+			if (translate) {
+				// Sessions can be any version (remote ones too), so they get the if ($?) form
+				const host = session || sessions ? undefined : await resolveHost(edition).catch(() => undefined);
+				try {
+					const translated = translateBash(command, { chainOperators: !!host && hasChainOperators(host.version) });
+					if (translated.rewrites.length > 0) {
+						translation = { original: command, rewrites: translated.rewrites };
+						command = translated.command;
+					}
+				} catch (error) {
+					if (!(error instanceof BashTranslationError)) throw error;
+					return fail(`Not translated from bash — ${error.message}\n\nWrite that part in PowerShell, or call without translate.`);
+				}
+			}
+
+			const local = !session && !sessions;
+			const analysis = await analyzeScript(command, local ? { edition, signal, workingDirectory: cwd, env, cleanEnv, preflight: true } : { signal });
+			if (analysis && analysis.errors.length > 0) {
+				return withTranslation(createResult(describeSyntaxErrors(command, analysis.errors), {
+					exitCode: -1, success: false, command, error: 'Syntax error', syntaxErrors: analysis.errors,
+				}), translation);
+			}
+			// A cancelled call reports itself as such below, rather than asking about the unanalyzed command
+			const blocked = signal?.aborted ? undefined : await checkGuard(command, analysis?.commands, ctx);
+			if (blocked) return withTranslation(guardResult(command, blocked), translation);
+
+			const output = format === 'text' ? undefined : { format, depth, maxItems };
+			if (sessions) {
+				return withTranslation(await runFanOut(command, sessions, timeout * 1000, concurrency, onUpdate, {
+					signal, output, limits: outputLimits(maxLines, maxBytes), ctx,
+				}), translation);
+			}
+			return withTranslation(await runCommand(command, timeout * 1000, cwd, session, executePowerShell, onUpdate, {
+				signal, output, limits: outputLimits(maxLines, maxBytes), env, cleanEnv, edition, ctx,
+			}), translation);
+		}
+	});
+
+	pi.registerTool({
+		name: "pwsh-run-script",
+		label: "PowerShell Script",
+		description: `Run a .ps1 script file with named parameters. Parameters are checked against the script's param() block first: unknown names and missing mandatory parameters are reported without running the script. Values are passed as literals attached to their names, so paths with spaces or values starting with - need no quoting. Switch parameters take true/false.`,
+		parameters: scriptParams,
+		renderCall: (args: { path: string; parameters?: Record<string, string | number | boolean> }, theme: Theme) =>
+			psRenderCall({ command: describeScriptCall(args.path, Object.entries(args.parameters ?? {}).map(([name, value]) => ({ name, value: typeof value === 'number' ? String(value) : value }))) }, theme),
+		renderResult: psRenderResult,
+
+		async execute(_toolCallId, params, signal, onUpdate, ctx: ExtensionContext) {
+			const { timeout = getConfig().timeout, parameters = {}, workingDirectory, env, maxLines, maxBytes, edition } = params;
+			const path = resolvePath(ctx.cwd, params.path);
+			const fail = (error: string) => createResult(error, { exitCode: -1, success: false, command: `& ${path}`, error });
+
+			if (!existsSync(path) || !statSync(path).isFile()) return fail(`Script not found: ${path}`);
+			if (!/\.ps1$/i.test(path)) return fail(`Not a PowerShell script (.ps1): ${path}`);
+			const cwd = workingDirectory ? resolvePath(ctx.cwd, workingDirectory) : ctx.cwd;
+			if (!existsSync(cwd) || !statSync(cwd).isDirectory()) return fail(`Working directory not found: ${cwd}`);
+			const envError = validateEnv(env);
+			if (envError) return fail(envError);
+
+			const info = await readScriptInfo(path, cwd, edition);
+			if (typeof info === 'string') return fail(`Could not read script parameters:\n${info}`);
+			if (info.errors.length > 0) return fail(`Script has syntax errors:\n${info.errors.join('\n')}`);
+
+			const problems = validateScriptParameters(info, parameters);
+			if (problems.length > 0) {
+				const declared = info.parameters.map(p => `  -${p.name} [${p.type}]${p.mandatory ? ' (mandatory)' : ''}`).join('\n') || '  (none)';
+				return fail(`${problems.join('\n')}\n\nScript parameters:\n${declared}`);
+			}
+
+			const args = buildScriptArgs(info, parameters);
+			const call = describeScriptCall(path, args);
+			// The script's own commands are what the guard has to see, not the & call
+			if (getConfig().guard.enabled) {
+				const analysis = await analyzeScript(readFileSync(path, 'utf8').replace(/^\uFEFF/, ''), { edition, signal });
+				const blocked = signal?.aborted ? undefined : await checkGuard(call, analysis?.commands, ctx);
+				if (blocked) return guardResult(call, blocked);
+			}
+			return runCommand(call, timeout * 1000, cwd, undefined, executePowerShell, onUpdate, {
+				signal, limits: outputLimits(maxLines, maxBytes), env, file: { path, args }, edition,
+			});
 		}
 	});
 
@@ -9,15 +9,28 @@
  *   powershell command="$x = 42" session="work" → runs in session
  *   powershell command="$x" session="work" → returns 42 (state persisted)
  *   pwsh-close-session name="work" → cleanup
+ *
+ * pwsh-copy-to-session and pwsh-copy-from-session move files over a remote session's
+ * connection. pwsh-list-sessions and pwsh-get-session show what is open. pwsh-test-session checks a
+ * session on demand; the heartbeat does so periodically, and its disconnect/reconnect/error
+ * events become notices in pi. Sessions left unused for sessionIdleTimeout are closed, and
+ * the agent is told.
  */
 
+import { resolve, sep } from "path";
 import type { ExtensionAPI, ExtensionContext, AgentToolResult, ToolRenderResultOptions } from "@mariozechner/pi-coding-agent";
 import { Theme } from "@mariozechner/pi-coding-agent";
 import { Text } from "@mariozechner/pi-tui";
 import { Type } from "@sinclair/typebox";
-import { sessionManager } from "../session/session-manager.js";
+import { sessionManager, type PSSessionInfo, type SessionHealth } from "../session/session-manager.js";
+import { describeHost } from "../process/powershell-host.js";
+import { getConfig } from "../config/config.js";
+import { formatDuration } from "../jobs/job-registry.js";
+import { CredentialSourceSchema } from "../session/credentials.js";
+import type { TransferDirection, TransferSummary } from "../session/transfer.js";
+import { prepareCredentials } from "./credential-prompt.js";
 
-interface SessionDetails { name: string; success: boolean; error?: string; [key: string]: unknown; }
+interface SessionDetails { name?: string; success: boolean; error?: string; [key: string]: unknown; }
 
 function result(text: string, details: SessionDetails): AgentToolResult<SessionDetails> {
 	return { content: [{ type: "text", text }], details };
@@ -29,42 +42,169 @@ function renderResult(res: AgentToolResult<SessionDetails>, options: ToolRenderR
 	return new Text(theme.fg("toolOutput", text), 0, 0);
 }
 
+function stripUndefined<T extends object>(value: T): Partial<T> {
+	return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+	return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+}
+
+/** "Copied 12 files (3.4 MB) to web01, skipped 2, checksums match" */
+export function describeTransfer(direction: TransferDirection, info: PSSessionInfo, summary: TransferSummary): string {
+	const files = `${summary.copied.length} file${summary.copied.length === 1 ? '' : 's'}`;
+	let text = `Copied ${files} (${formatBytes(summary.bytes)}) ${direction === 'to' ? 'to' : 'from'} ${info.computerName}`;
+	if (summary.skipped.length > 0) text += `, skipped ${summary.skipped.length} existing`;
+	if (summary.verified === true) text += ', checksums match';
+	if (summary.mismatched.length > 0) {
+		text += `\nChecksum mismatch — these copies differ from their source: ${summary.mismatched.join(', ')}`;
+	}
+	return text;
+}
+
+/** "WinRM → web01", "SSH → build01", "local" */
+function describeTarget(info: PSSessionInfo): string {
+	if (info.isLocal) return 'local';
+	return `${info.transport === 'ssh' ? 'SSH' : 'WinRM'} → ${info.computerName}`;
+}
+
+function since(date: Date, now: Date): string {
+	return formatDuration(Math.max(0, now.getTime() - date.getTime()));
+}
+
+/** One line per session for pwsh-list-sessions */
+export function describeSession(info: PSSessionInfo, now = new Date()): string {
+	const location = info.location ? `, in ${info.location}` : '';
+	return `${info.name} (${describeTarget(info)}): ${info.state}, open ${since(info.createdAt, now)}, last used ${since(info.lastUsed, now)} ago, ${info.commandCount} command(s)${location}`;
+}
+
+/** Everything pwsh-get-session knows about a session; `idleTimeout` in seconds, 0 for none */
+export function describeSessionDetails(info: PSSessionInfo, idleTimeout: number, now = new Date()): string {
+	const checked = info.lastChecked
+		? ` (checked ${since(info.lastChecked, now)} ago${info.latencyMs !== undefined ? `, ${info.latencyMs} ms round trip` : ''})`
+		: '';
+	const lines = [
+		`Session '${info.name}' (${describeTarget(info)})`,
+		`State: ${info.state}${checked}`,
+		`Created: ${info.createdAt.toISOString()} (${since(info.createdAt, now)} ago)`,
+		`Last used: ${info.lastUsed.toISOString()} (${since(info.lastUsed, now)} ago)`,
+		`Commands: ${info.commandCount}`,
+		`Location: ${info.location ?? (info.isLocal ? 'not known yet' : 'not known yet — pwsh-test-session reports it')}`,
+	];
+	if (info.host) lines.push(`Host: ${describeHost(info.host)}`);
+	if (info.options?.tags?.length) lines.push(`Tags: ${info.options.tags.join(', ')}`);
+	if (idleTimeout > 0) {
+		const left = Math.max(0, info.lastUsed.getTime() + idleTimeout * 1000 - now.getTime());
+		lines.push(`Idle timeout: closed after ${formatDuration(idleTimeout * 1000)} unused (${formatDuration(left)} left)`);
+	}
+	return lines.join('\n');
+}
+
+/** "Connected — 34 ms round trip", or the state and what went wrong */
+export function describeHealth(info: PSSessionInfo, health: SessionHealth): string {
+	const where = info.isLocal ? 'local' : info.computerName;
+	let text = `Session '${health.name}' (${where}): ${health.state}`;
+	if (health.latencyMs !== undefined) text += ` — ${health.latencyMs} ms round trip`;
+	if (health.reconnected) {
+		text += health.stateLost ? '\nReconnected with a new session: variables, modules and location from earlier commands are gone' : '\nReconnected; session state was kept';
+	}
+	if (health.error) text += `\n${health.error}`;
+	if (health.state === 'Disconnected' && !health.reconnected) text += `\nRun pwsh-test-session with reconnect: true to restore it.`;
+	return text;
+}
+
+/**
+ * Show the session manager's disconnect, reconnect and error events as pi notices. An idle
+ * session being closed is told to the agent too, since its next command would fail.
+ */
+function registerSessionNotices(pi: ExtensionAPI): void {
+	let ui: ExtensionContext['ui'] | undefined;
+	pi.on("session_start", (_event, ctx) => {
+		if (ctx.hasUI) ui = ctx.ui;
+	});
+	sessionManager.on('sessionDisconnected', (info: PSSessionInfo) => {
+		ui?.notify(`PowerShell session '${info.name}' (${info.computerName}) disconnected`, "warning");
+	});
+	sessionManager.on('sessionReconnected', (info: PSSessionInfo, stateLost: boolean) => {
+		ui?.notify(`PowerShell session '${info.name}' reconnected${stateLost ? ' — its variables, modules and location were reset' : ''}`, "info");
+	});
+	sessionManager.on('sessionError', (info: PSSessionInfo, error: Error) => {
+		ui?.notify(`PowerShell session '${info.name}': ${error.message}`, "error");
+	});
+	sessionManager.on('sessionExpired', (info: PSSessionInfo, idleMs: number) => {
+		const recreate = getConfig().sessions[info.name]
+			? 'It is defined in the config, so the next command in it creates it again.'
+			: 'Create it again with pwsh-create-session to keep using it.';
+		pi.sendMessage({
+			customType: "pwsh-session-expired",
+			content: `PowerShell session '${info.name}' (${describeTarget(info)}) was closed after ${formatDuration(idleMs)} unused; its variables, modules and location are gone. ${recreate}`,
+			display: true,
+			details: { name: info.name, idleMs },
+		}, { deliverAs: "nextTurn" });
+	});
+}
+
 export function registerPSessionTools(pi: ExtensionAPI): void {
+	registerSessionNotices(pi);
 
 	pi.registerTool({
 		name: "pwsh-create-session",
 		label: "Create PSSession",
-		description: "Create a persistent PSSession for remote PowerShell execution. The session maintains state (variables, modules) across commands on the remote machine. Use session='name' on the powershell tool to run commands in it.",
+		description: "Create a persistent PSSession for remote PowerShell execution over WinRM (computerName) or SSH (hostName). The session maintains state (variables, modules) across commands on the remote machine. Use session='name' on the powershell tool to run commands in it.",
 		parameters: Type.Object({
-			name: Type.String({ description: "Unique name for the session" }),
-			computerName: Type.Optional(Type.String({ description: "Remote computer name (omit for local session)" })),
+			name: Type.String({ description: "Unique name for the session. Sessions defined in .pi/powershell.json take their settings from there." }),
+			transport: Type.Optional(Type.Union([Type.Literal("wsman"), Type.Literal("ssh")], {
+				description: "'wsman' = WinRM (computerName, credential, authentication, useSSL); 'ssh' = PowerShell over SSH (hostName, userName, keyFilePath, subsystem). Default: ssh when hostName is given",
+			})),
+			computerName: Type.Optional(Type.String({ description: "Remote computer name for WinRM (omit both computerName and hostName for a local session)" })),
+			hostName: Type.Optional(Type.String({ description: "SSH host, optionally user@host; needs PowerShell 7 here and the pwsh SSH subsystem on the target" })),
+			userName: Type.Optional(Type.String({ description: "SSH user (default: current user)" })),
+			keyFilePath: Type.Optional(Type.String({ description: "SSH private key file (default: ssh agent and config)" })),
+			subsystem: Type.Optional(Type.String({ description: "SSH subsystem that starts PowerShell on the target (default: powershell)" })),
 			credential: Type.Optional(Type.String({ description: "Username for remote authentication (e.g., 'domain\\user')" })),
+			credentialSource: Type.Optional({
+				...CredentialSourceSchema,
+				description: "Where the password comes from: {type:'env', passwordVariable, usernameVariable?}, {type:'vault', name, vault?} (SecretManagement), {type:'file', path} (Export-Clixml), or {type:'prompt'} (the user types it in pi). Default with a credential: prompt",
+			}),
 			authentication: Type.Optional(Type.String({
 				description: "Authentication method: Default, Kerberos, Certificate, Basic, Negotiate",
 				enum: ["Default", "Kerberos", "Certificate", "Basic", "Negotiate"]
 			})),
-			port: Type.Optional(Type.Number({ description: "Remote port (default: 5985 for HTTP, 5986 for HTTPS)" })),
+			port: Type.Optional(Type.Number({ description: "Remote port (default: 5985 for HTTP, 5986 for HTTPS, 22 for SSH)" })),
 			useSSL: Type.Optional(Type.Boolean({ description: "Use SSL/HTTPS for remote connection" })),
-			timeout: Type.Optional(Type.Number({ description: "Connection timeout in seconds (default: 30)" })),
+			timeout: Type.Optional(Type.Number({ description: "WinRM connection timeout in seconds (default: 30)" })),
+			edition: Type.Optional(Type.Union([Type.Literal("core"), Type.Literal("desktop")], {
+				description: "Local PowerShell edition running the session: 'core' = PowerShell 7, 'desktop' = Windows PowerShell 5.1 (default: PowerShell 7 when installed)",
+			})),
+			tags: Type.Optional(Type.Array(Type.String(), { description: "Labels for running a command in every session with a tag: sessions: ['tag:web'] on the powershell tool" })),
 		}),
 		renderCall: (args, theme) => new Text(
 			theme.fg("toolTitle", theme.bold("pwsh-create-session ")) +
 			theme.fg("accent", args.name) +
-			(args.computerName ? theme.fg("muted", ` → ${args.computerName}`) : theme.fg("muted", " (local)")),
+			(args.computerName || args.hostName ? theme.fg("muted", ` → ${args.hostName ?? args.computerName}`) : theme.fg("muted", " (local)")),
 			0, 0
 		),
 		renderResult,
 
-		async execute(_id, params, _signal, _onUpdate, _ctx: ExtensionContext) {
-			const { name, computerName, credential, authentication, port, useSSL, timeout } = params;
+		async execute(_id, params, _signal, _onUpdate, ctx: ExtensionContext) {
+			const { name } = params;
+			// A session defined in the config supplies defaults; explicit parameters win
+			const defined = getConfig().sessions[name] ?? {};
+			const { transport, computerName, hostName, userName, keyFilePath, subsystem, credential, credentialSource, authentication, port, useSSL, timeout, edition, tags } = { ...defined, ...stripUndefined(params) };
 			try {
-				const info = await sessionManager.createSession(name, {
-					computerName, credential, authentication: authentication as any, port, useSSL,
-					timeout: timeout ? timeout * 1000 : undefined
-				});
-				const type = info.isLocal ? 'local' : 'remote';
+				const { options, password } = await prepareCredentials(name, {
+					transport, computerName, hostName, userName, keyFilePath, subsystem,
+					credential, credentialSource, authentication: authentication as any, port, useSSL,
+					timeout: timeout ? timeout * 1000 : undefined, edition, tags,
+				}, ctx);
+				const info = await sessionManager.createSession(name, options, password);
+				const type = info.isLocal ? 'local' : info.transport === 'ssh' ? 'SSH' : 'remote';
 				const target = info.isLocal ? 'localhost' : info.computerName;
-				return result(`Created ${type} PSSession '${name}' on ${target} — use session="${name}" in powershell tool`, { name, success: true });
+				const host = info.host ? ` (${describeHost(info.host)})` : '';
+				return result(`Created ${type} PSSession '${name}' on ${target}${host} — use session="${name}" in powershell tool`, { name, success: true });
 			} catch (error) {
 				return result(`Failed to create PSSession '${name}': ${error instanceof Error ? error.message : String(error)}`, { name, success: false, error: String(error) });
 			}
@@ -94,4 +234,145 @@ export function registerPSessionTools(pi: ExtensionAPI): void {
 			}
 		}
 	});
+
+	registerCopyTool(pi, 'to');
+	registerCopyTool(pi, 'from');
+
+	pi.registerTool({
+		name: "pwsh-list-sessions",
+		label: "List PSSessions",
+		description: "List the open PowerShell sessions: target, state, age, last use, command count and current location. Close the ones you no longer need with pwsh-close-session.",
+		parameters: Type.Object({}),
+		renderCall: (_args, theme) => new Text(theme.fg("toolTitle", theme.bold("pwsh-list-sessions")), 0, 0),
+		renderResult,
+
+		async execute(_id, _params, _signal, _onUpdate, _ctx: ExtensionContext) {
+			const sessions = sessionManager.listSessions();
+			if (sessions.length === 0) {
+				return result('No open PowerShell sessions', { success: true, sessions });
+			}
+			const now = new Date();
+			return result(sessions.map(info => describeSession(info, now)).join('\n'), { success: true, sessions });
+		}
+	});
+
+	pi.registerTool({
+		name: "pwsh-get-session",
+		label: "Get PSSession",
+		description: "Show one PowerShell session in detail: target, state and last health check, creation and last use, command count, current location, host and when the idle timeout will close it.",
+		parameters: Type.Object({
+			name: Type.String({ description: "Name of the session" }),
+		}),
+		renderCall: (args, theme) => new Text(
+			theme.fg("toolTitle", theme.bold("pwsh-get-session ")) + theme.fg("accent", args.name),
+			0, 0
+		),
+		renderResult,
+
+		async execute(_id, params, _signal, _onUpdate, _ctx: ExtensionContext) {
+			const { name } = params;
+			const info = sessionManager.getSession(name);
+			if (!info) {
+				const open = sessionManager.listSessions().map(s => s.name);
+				return result(`Session '${name}' not found${open.length ? ` — open sessions: ${open.join(', ')}` : ''}`, { name, success: false, error: 'not found' });
+			}
+			return result(describeSessionDetails(info, getConfig().sessionIdleTimeout), { ...info, success: true });
+		}
+	});
+
+	pi.registerTool({
+		name: "pwsh-test-session",
+		label: "Test PSSession",
+		description: "Check that a PowerShell session still answers: returns its state (Connected, Disconnected, Failed) and the round-trip latency. Opens a remote session's connection if no command has yet. With reconnect: true, a dead session is restarted and a broken remote connection repaired (remote state may be lost; the result says so).",
+		parameters: Type.Object({
+			name: Type.String({ description: "Name of the session to check" }),
+			reconnect: Type.Optional(Type.Boolean({ description: "Restore the session if it is disconnected (default: false)" })),
+			timeout: Type.Optional(Type.Number({ description: "Seconds to wait for an answer (default: 10)" })),
+		}),
+		renderCall: (args, theme) => new Text(
+			theme.fg("toolTitle", theme.bold("pwsh-test-session ")) + theme.fg("accent", args.name) +
+			(args.reconnect ? theme.fg("muted", " (reconnect)") : ""),
+			0, 0
+		),
+		renderResult,
+
+		async execute(_id, params, _signal, _onUpdate, _ctx: ExtensionContext) {
+			const { name, reconnect = false, timeout = 10 } = params;
+			const info = sessionManager.getSession(name);
+			if (!info) {
+				return result(`Session '${name}' not found`, { name, success: false, error: 'not found' });
+			}
+			const health = await sessionManager.checkSession(name, { timeout: timeout * 1000, connect: true, reconnect });
+			return result(describeHealth(info, health), { ...health, success: health.state === 'Connected' });
+		}
+	});
+}
+
+/** Local paths are relative to pi's working directory; a trailing separator is kept */
+function localPath(path: string, cwd: string): string {
+	const full = resolve(cwd, path);
+	return /[\\/]$/.test(path) && !full.endsWith(sep) ? full + sep : full;
+}
+
+function registerCopyTool(pi: ExtensionAPI, direction: TransferDirection): void {
+	const toSession = direction === 'to';
+	const name = toSession ? "pwsh-copy-to-session" : "pwsh-copy-from-session";
+	pi.registerTool({
+		name,
+		label: toSession ? "Copy to PSSession" : "Copy from PSSession",
+		description: toSession
+			? "Copy a local file or directory to the target of a remote PSSession (Copy-Item -ToSession), e.g. a config file onto a server. Reports progress, can verify SHA-256 checksums, and never copies part of a directory when overwrite is 'fail'."
+			: "Copy a file or directory from the target of a remote PSSession to this machine (Copy-Item -FromSession), e.g. to pull back logs. Reports progress, can verify SHA-256 checksums, and never copies part of a directory when overwrite is 'fail'.",
+		parameters: Type.Object({
+			session: Type.String({ description: "Name of the remote session" }),
+			source: Type.String({ description: toSession ? "Local file or directory (relative to the working directory)" : "Remote file or directory (relative to the session's location)" }),
+			destination: Type.String({
+				description: `${toSession ? "Remote" : "Local"} path. A file is copied to this path, or into it when it is an existing directory or ends with a separator; a directory's contents are copied into this directory`,
+			}),
+			recursive: Type.Optional(Type.Boolean({ description: "Copy a directory with everything in it (required for directories)" })),
+			overwrite: Type.Optional(Type.Union([Type.Literal("overwrite"), Type.Literal("skip"), Type.Literal("fail")], {
+				description: "Files that already exist at the destination: 'overwrite' replaces them (default), 'skip' keeps them, 'fail' copies nothing if any exists",
+			})),
+			verify: Type.Optional(Type.Boolean({ description: "Compare SHA-256 checksums of every copy with its source (default: true)" })),
+			timeout: Type.Optional(Type.Number({ description: "Seconds for the whole copy (default: 300)" })),
+		}),
+		renderCall: (args, theme) => new Text(
+			theme.fg("toolTitle", theme.bold(`${name} `)) + theme.fg("accent", args.session) +
+			theme.fg("muted", ` ${args.source} → ${args.destination}`),
+			0, 0
+		),
+		renderResult,
+
+		async execute(_id, params, signal, onUpdate, ctx: ExtensionContext) {
+			const { session, recursive, overwrite, verify = true, timeout = 300 } = params;
+			const info = sessionManager.getSession(session);
+			if (!info) {
+				return result(`Session '${session}' not found`, { name: session, success: false, error: 'not found' });
+			}
+			const source = toSession ? localPath(params.source, ctx.cwd) : params.source;
+			const destination = toSession ? params.destination : localPath(params.destination, ctx.cwd);
+			try {
+				const copy = await sessionManager.transferFiles(session, { direction, source, destination, recursive, overwrite, verify }, {
+					timeout: timeout * 1000,
+					signal,
+					onProgress: onUpdate ? progress => onUpdate({
+						content: [{ type: "text", text: `Copying ${progress.index}/${progress.total}: ${progress.file} (${formatBytes(progress.copiedBytes)} of ${formatBytes(progress.totalBytes)})` }],
+						details: { name: session, success: true, progress },
+					}) : undefined,
+					onQueued: onUpdate ? ahead => onUpdate({
+						content: [{ type: "text", text: `Waiting in session '${session}' — ${ahead} command(s) ahead` }],
+						details: { name: session, success: true, queued: ahead },
+					}) : undefined,
+				});
+				if (!copy.summary) {
+					const reason = copy.cancelled ? 'Copy cancelled' : 'Copy failed';
+					return result(`${reason}: ${copy.stderr || 'no result from the session'}`, { name: session, success: false, error: copy.stderr, cancelled: copy.cancelled, recycled: copy.recycled });
+				}
+				const success = copy.success && copy.summary.mismatched.length === 0;
+				return result(describeTransfer(direction, info, copy.summary), { name: session, success, source, destination, ...copy.summary });
+			} catch (error) {
+				return result(`Copy failed: ${error instanceof Error ? error.message : String(error)}`, { name: session, success: false, error: String(error) });
+			}
+		}
+	});
 }
@@ -0,0 +1,111 @@
+/**
+ * Static analysis of commands with PowerShell's own parser, before anything runs.
+ *
+ * One parse gives both the syntax errors — reported with line, column and a caret
+ * excerpt instead of a runtime error from a half-started process — and the commands
+ * the script invokes, which the command guard checks.
+ */
+
+/** One command invocation found in the parsed script */
+export interface CommandUse {
+	/** As written, e.g. "rm" */
+	name: string;
+	/** After alias resolution, e.g. "Remove-Item" */
+	resolved: string;
+	/** Parameter names without the dash, as written */
+	parameters: string[];
+	/** Argument texts (quotes kept) */
+	arguments: string[];
+	line: number;
+}
+
+/** A parser error; lines and columns are 1-based */
+export interface ParseError {
+	line: number;
+	column: number;
+	endLine: number;
+	endColumn: number;
+	/** Source text the error points at — empty at the end of input */
+	token: string;
+	message: string;
+	/** PowerShell's ErrorId, e.g. "MissingEndCurlyBrace" */
+	id: string;
+}
+
+export interface ScriptAnalysis {
+	commands: CommandUse[];
+	errors: ParseError[];
+}
+
+/**
+ * Prints JSON ScriptAnalysis for the script in the file named by $env:PI_ANALYZE_FILE.
+ * Nothing in the script is executed.
+ */
+export const ANALYZE_COMMAND = `
+$tokens = $null; $parseErrors = $null
+$ast = [System.Management.Automation.Language.Parser]::ParseFile($env:PI_ANALYZE_FILE, [ref]$tokens, [ref]$parseErrors)
+$commands = @($ast.FindAll({ param($n) $n -is [System.Management.Automation.Language.CommandAst] }, $true) | ForEach-Object {
+	$name = $_.GetCommandName()
+	if (-not $name) { return }
+	$alias = Get-Alias -Name $name -ErrorAction SilentlyContinue
+	$parameters = @(); $arguments = @()
+	foreach ($el in ($_.CommandElements | Select-Object -Skip 1)) {
+		if ($el -is [System.Management.Automation.Language.CommandParameterAst]) {
+			$parameters += $el.ParameterName
+			if ($el.Argument) { $arguments += $el.Argument.Extent.Text }
+		} else {
+			$arguments += $el.Extent.Text
+		}
+	}
+	[pscustomobject]@{
+		name = $name
+		resolved = $(if ($alias) { $alias.ResolvedCommandName } else { $name })
+		parameters = $parameters
+		arguments = $arguments
+		line = $_.Extent.StartLineNumber
+	}
+})
+[pscustomobject]@{
+	commands = $commands
+	errors = @($parseErrors | ForEach-Object {
+		[pscustomobject]@{
+			line = $_.Extent.StartLineNumber
+			column = $_.Extent.StartColumnNumber
+			endLine = $_.Extent.EndLineNumber
+			endColumn = $_.Extent.EndColumnNumber
+			token = $_.Extent.Text
+			message = $_.Message
+			id = $_.ErrorId
+		}
+	})
+}`;
+
+const MAX_REPORTED_ERRORS = 5;
+
+/**
+ * The error's source line with a caret under the offending token:
+ *
+ *     3 | if ($a -eq 1 {
+ *       |              ^
+ */
+function excerpt(lines: string[], error: ParseError): string {
+	const source = lines[error.line - 1] ?? '';
+	const start = Math.min(Math.max(error.column - 1, 0), source.length);
+	// Multi-line tokens are underlined to the end of their first line
+	const end = error.endLine === error.line ? Math.min(error.endColumn - 1, source.length) : source.length;
+	// Keep tabs in the padding so the caret lines up under tab-indented code
+	const pad = source.slice(0, start).replace(/[^\t]/g, ' ');
+	const gutter = String(error.line);
+	return `  ${gutter} | ${source}\n  ${' '.repeat(gutter.length)} | ${pad}${'^'.repeat(Math.max(end - start, 1))}`;
+}
+
+/** Parser errors with positions and excerpts, first few only (later ones are often follow-ups) */
+export function formatParseErrors(source: string, errors: ParseError[]): string {
+	const lines = source.split(/\r?\n/);
+	const shown = errors.slice(0, MAX_REPORTED_ERRORS).map(e => {
+		const near = e.token.trim() ? ` (near '${e.token.trim().split(/\r?\n/)[0]}')` : '';
+		return `line ${e.line}, column ${e.column}: ${e.message}${near}\n${excerpt(lines, e)}`;
+	});
+	const more = errors.length - shown.length;
+	return shown.join('\n\n') + (more > 0 ? `\n\n... ${more} more error(s)` : '');
+}
@@ -0,0 +1,127 @@
+/**
+ * Script parameter handling for pwsh-run-script.
+ *
+ * The param() block is read with the PowerShell parser (never by running the script),
+ * the agent's `parameters` object is checked against it, and the values are turned
+ * into named arguments with the value attached (-Name:'value'), so a value with spaces
+ * or a leading dash is never read as anything else.
+ */
+
+export interface ScriptParameter {
+	name: string;
+	/** .NET type name, e.g. String, Int32, SwitchParameter, Object */
+	type: string;
+	mandatory: boolean;
+	isSwitch: boolean;
+	isArray: boolean;
+}
+
+export interface ScriptInfo {
+	parameters: ScriptParameter[];
+	/** [CmdletBinding()] — common parameters (-Verbose, -ErrorAction, ...) are accepted */
+	cmdletBinding: boolean;
+	/** Parse errors as "line:column message" */
+	errors: string[];
+}
+
+export type ScriptParameterValue = string | number | boolean;
+
+/** One named argument; a switch that is set has no value */
+export interface ScriptArgument {
+	name: string;
+	value?: string | boolean;
+}
+
+/**
+ * Reads the param() block of the file in $env:PI_SCRIPT_PATH. A parameter counts as
+ * mandatory only when it is Mandatory in every parameter set it belongs to.
+ */
+export const READ_SCRIPT_PARAMS = `
+$tokens = $null; $parseErrors = $null
+$ast = [System.Management.Automation.Language.Parser]::ParseFile($env:PI_SCRIPT_PATH, [ref]$tokens, [ref]$parseErrors)
+$params = @(if ($ast.ParamBlock) { foreach ($p in $ast.ParamBlock.Parameters) {
+	$attrs = @($p.Attributes | Where-Object { $_ -is [System.Management.Automation.Language.AttributeAst] -and $_.TypeName.GetReflectionAttributeType() -eq [System.Management.Automation.ParameterAttribute] })
+	$mandatory = $attrs.Count -gt 0 -and @($attrs | Where-Object {
+		$m = $_.NamedArguments | Where-Object ArgumentName -eq 'Mandatory'
+		$m -and ($m.ExpressionOmitted -or $m.Argument.Extent.Text -eq '$true')
+	}).Count -eq $attrs.Count
+	[pscustomobject]@{
+		name = $p.Name.VariablePath.UserPath
+		type = $p.StaticType.Name
+		mandatory = [bool]$mandatory
+		isSwitch = $p.StaticType -eq [switch]
+		isArray = $p.StaticType.IsArray
+	}
+} })
+[pscustomobject]@{
+	parameters = $params
+	cmdletBinding = [bool]($ast.ParamBlock.Attributes | Where-Object { $_.TypeName.Name -eq 'CmdletBinding' })
+	errors = @($parseErrors | ForEach-Object { '{0}:{1} {2}' -f $_.Extent.StartLineNumber, $_.Extent.StartColumnNumber, $_.Message })
+}`;
+
+const COMMON_PARAMETERS = [
+	'Verbose', 'Debug', 'ErrorAction', 'WarningAction', 'InformationAction', 'ProgressAction',
+	'ErrorVariable', 'WarningVariable', 'InformationVariable', 'OutVariable', 'OutBuffer',
+	'PipelineVariable', 'WhatIf', 'Confirm',
+];
+
+function findParameter(info: ScriptInfo, name: string): ScriptParameter | undefined {
+	const lower = name.toLowerCase();
+	const declared = info.parameters.find(p => p.name.toLowerCase() === lower);
+	if (declared || !info.cmdletBinding) return declared;
+	const common = COMMON_PARAMETERS.find(p => p.toLowerCase() === lower);
+	if (!common) return undefined;
+	const isSwitch = ['Verbose', 'Debug', 'WhatIf', 'Confirm'].includes(common);
+	return { name: common, type: isSwitch ? 'SwitchParameter' : 'String', mandatory: false, isSwitch, isArray: false };
+}
+
+/** Problems with `values` for this script — empty when it can run */
+export function validateScriptParameters(info: ScriptInfo, values: Record<string, unknown>): string[] {
+	const problems: string[] = [];
+	const given = new Set(Object.keys(values).map(k => k.toLowerCase()));
+
+	for (const [name, value] of Object.entries(values)) {
+		const param = findParameter(info, name);
+		if (!param) {
+			const known = info.parameters.map(p => p.name).join(', ') || 'none';
+			problems.push(`Unknown parameter '${name}' (script parameters: ${known})`);
+			continue;
+		}
+		if (param.isSwitch && typeof value !== 'boolean') {
+			problems.push(`Parameter '${param.name}' is a switch — pass true or false`);
+		} else if (Array.isArray(value) || (typeof value === 'object' && value !== null)) {
+			problems.push(`Parameter '${param.name}': arrays and objects can't be passed — pass a string`);
+		} else if (value === null || value === undefined) {
+			problems.push(`Parameter '${param.name}' has no value`);
+		}
+	}
+
+	const missing = info.parameters.filter(p => p.mandatory && !given.has(p.name.toLowerCase()));
+	if (missing.length > 0) {
+		problems.push(`Missing mandatory parameter(s): ${missing.map(p => `${p.name} [${p.type}]`).join(', ')}`);
+	}
+	return problems;
+}
+
+/** Arguments for validated values, using the declared parameter names */
+export function buildScriptArgs(info: ScriptInfo, values: Record<string, ScriptParameterValue>): ScriptArgument[] {
+	const args: ScriptArgument[] = [];
+	for (const [key, value] of Object.entries(values)) {
+		const param = findParameter(info, key);
+		const name = param?.name ?? key;
+		if (typeof value === 'boolean') {
+			// Switches take -Name / -Name:$false; [bool] parameters need the value attached
+			args.push(param?.isSwitch && value ? { name } : { name, value });
+		} else {
+			args.push({ name, value: String(value) });
+		}
+	}
+	return args;
+}
+
+/** -Name, -Name:$false or -Name:'value' */
+export function formatScriptArgument({ name, value }: ScriptArgument): string {
+	if (value === undefined) return `-${name}`;
+	if (typeof value === 'boolean') return `-${name}:$${value}`;
+	return `-${name}:'${value.replace(/'/g, "''")}'`;
+}
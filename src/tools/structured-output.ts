@@ -0,0 +1,176 @@
+/**
+ * Structured output for the powershell tool — format: 'json' | 'csv'.
+ *
+ * The pipeline output is serialized with ConvertTo-Json inside PowerShell and parsed
+ * here, so agents don't have to append `| ConvertTo-Json` and re-parse text that
+ * truncation may have cut mid-token. Truncation caps the number of items instead.
+ *
+ * A per-call marker line separates host output (Write-Host, warnings) from the JSON, and
+ * carries the command's own outcome: serializing always succeeds, so without it a failed
+ * command would look like a successful one.
+ */
+
+import { randomBytes } from "crypto";
+
+export type OutputFormat = 'text' | 'json' | 'csv';
+
+export interface StructuredOptions {
+	format: Exclude<OutputFormat, 'text'>;
+	/** ConvertTo-Json -Depth (default: 3) */
+	depth?: number;
+	/** Maximum items kept in the result (default: 200) */
+	maxItems?: number;
+}
+
+export interface StructuredOutput {
+	/** Parsed pipeline objects, capped to maxItems / the byte limit */
+	items: unknown[];
+	totalItems: number;
+	truncated: boolean;
+	/** Anything the command wrote to the host before the JSON (Write-Host, etc.) */
+	hostOutput: string;
+	/** $? and $LASTEXITCODE right after the command, when the marker carried them */
+	status?: { success: boolean; exitCode: number | null };
+}
+
+const MAX_BYTES = 50 * 1024;
+const MAX_TABLE_ROWS = 50;
+const MAX_COLUMNS = 8;
+const MAX_CELL_WIDTH = 40;
+
+export function createMarker(): string {
+	return `__PI_STRUCTURED_${randomBytes(6).toString('hex')}__`;
+}
+
+/**
+ * Wrap a command so its pipeline output is emitted as one JSON array after the marker.
+ * The command is dot-sourced, so in a session its variables and functions persist;
+ * $? and $LASTEXITCODE are read on the line after it and follow the marker as JSON.
+ * -InputObject @(...) always yields an array (also in Windows PowerShell 5.1, which
+ * lacks -AsArray). Marker and JSON go down the pipeline rather than to [Console]::Out,
+ * so they come back from a remote session's Invoke-Command too.
+ */
+export function wrapStructured(command: string, marker: string, depth = 3): string {
+	// $LASTEXITCODE is reset first: a remote session's would still hold an earlier command's
+	return `$global:LASTEXITCODE = $null; $__piItems = @(. {\n${command}\n$__piOk = $?; $__piCode = $LASTEXITCODE\n}); `
+		+ `Write-Output ('${marker}' + (ConvertTo-Json -InputObject ([ordered]@{ success = [bool]$__piOk; exitCode = $__piCode }) -Compress)); `
+		+ `Write-Output (ConvertTo-Json -InputObject $__piItems -Depth ${Math.max(1, Math.floor(depth))} -Compress)`;
+}
+
+/** The status JSON on the marker line, if there is one */
+function parseStatus(line: string): StructuredOutput['status'] {
+	try {
+		const status = JSON.parse(line) as { success?: unknown; exitCode?: unknown };
+		if (typeof status.success !== 'boolean') return undefined;
+		return { success: status.success, exitCode: typeof status.exitCode === 'number' ? status.exitCode : null };
+	} catch {
+		return undefined;
+	}
+}
+
+/** Parse wrapped output. Null if the marker never appeared (the command failed first). */
+export function parseStructured(stdout: string, marker: string, maxItems = 200): StructuredOutput | null {
+	const idx = stdout.lastIndexOf(marker);
+	if (idx === -1) return null;
+	const hostOutput = stdout.slice(0, idx).trim();
+	const rest = stdout.slice(idx + marker.length);
+	const lineEnd = rest.search(/\r?\n/);
+	const statusLine = (lineEnd === -1 ? rest : rest.slice(0, lineEnd)).trim();
+	const status = statusLine.startsWith('{') ? parseStatus(statusLine) : undefined;
+	const json = (status ? rest.slice(lineEnd === -1 ? rest.length : lineEnd) : rest).trim();
+
+	let parsed: unknown;
+	try {
+		parsed = json ? JSON.parse(json) : [];
+	} catch {
+		return null;
+	}
+	const all = Array.isArray(parsed) ? parsed : [parsed];
+	const items = capItems(all, maxItems);
+	return { items, totalItems: all.length, truncated: items.length < all.length, hostOutput, status };
+}
+
+/** Keep whole items only: at most maxItems, and no more than fits in the byte budget */
+export function capItems(items: unknown[], maxItems: number, maxBytes = MAX_BYTES): unknown[] {
+	const kept: unknown[] = [];
+	let bytes = 2;
+	for (const item of items.slice(0, maxItems)) {
+		bytes += Buffer.byteLength(JSON.stringify(item) ?? 'null', 'utf8') + 1;
+		if (bytes > maxBytes && kept.length > 0) break;
+		kept.push(item);
+	}
+	return kept;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function columnsOf(items: unknown[]): string[] {
+	const columns: string[] = [];
+	for (const item of items) {
+		if (!isRecord(item)) continue;
+		for (const key of Object.keys(item)) {
+			if (!columns.includes(key)) columns.push(key);
+		}
+	}
+	return columns;
+}
+
+function cellText(value: unknown): string {
+	if (value === null || value === undefined) return '';
+	if (typeof value === 'object') return JSON.stringify(value);
+	return String(value).replace(/\r?\n/g, ' ');
+}
+
+function clip(text: string, width: number): string {
+	return text.length > width ? text.slice(0, width - 1) + '…' : text;
+}
+
+/** Compact Format-Table style summary of the first rows */
+export function formatTable(items: unknown[], maxRows = MAX_TABLE_ROWS): string {
+	if (items.length === 0) return '(no items)';
+	const rows = items.slice(0, maxRows);
+	const allColumns = columnsOf(rows);
+	const columns = allColumns.slice(0, MAX_COLUMNS);
+
+	let table: string[][];
+	let header: string[];
+	if (columns.length === 0) {
+		header = ['Value'];
+		table = rows.map(item => [clip(cellText(item), MAX_CELL_WIDTH * 2)]);
+	} else {
+		header = columns;
+		table = rows.map(item => columns.map(col => clip(cellText(isRecord(item) ? item[col] : item), MAX_CELL_WIDTH)));
+	}
+
+	const widths = header.map((h, i) => Math.max(h.length, ...table.map(r => r[i].length)));
+	const line = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd();
+	const out = [line(header), line(widths.map(w => '-'.repeat(w))), ...table.map(line)];
+	if (allColumns.length > columns.length) out.push(`(${allColumns.length - columns.length} more column(s): ${allColumns.slice(MAX_COLUMNS).join(', ')})`);
+	if (items.length > rows.length) out.push(`(${items.length - rows.length} more row(s))`);
+	return out.join('\n');
+}
+
+function csvCell(value: unknown): string {
+	const text = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with a header row (union of all properties) */
+export function toCsv(items: unknown[]): string {
+	const columns = columnsOf(items);
+	if (columns.length === 0) return ['Value', ...items.map(csvCell)].join('\n');
+	const rows = items.map(item => columns.map(col => csvCell(isRecord(item) ? item[col] : undefined)).join(','));
+	return [columns.map(csvCell).join(','), ...rows].join('\n');
+}
+
+/** Text content for the agent: table (json) or CSV, plus host output and a truncation note */
+export function formatStructured(output: StructuredOutput, format: StructuredOptions['format']): string {
+	const parts: string[] = [];
+	if (output.hostOutput) parts.push(output.hostOutput);
+	parts.push(format === 'csv' ? toCsv(output.items) : formatTable(output.items));
+	const count = `${output.totalItems} item(s)`;
+	parts.push(output.truncated ? `[${count}, kept first ${output.items.length} in details]` : `[${count}]`);
+	return parts.join('\n\n');
+}
@@ -0,0 +1,99 @@
+/**
+ * Output truncation for the powershell tool.
+ *
+ * Long output keeps its head and its tail — errors are usually at the end — and the
+ * untruncated stdout/stderr is saved to a temp file so nothing is lost for good.
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { randomBytes } from "crypto";
+
+export interface OutputLimits {
+	/** Maximum lines returned (default: 2000) */
+	maxLines?: number;
+	/** Maximum bytes returned (default: 50KB) */
+	maxBytes?: number;
+}
+
+export const DEFAULT_MAX_LINES = 2000;
+export const DEFAULT_MAX_BYTES = 50 * 1024;
+
+function resolveLimits(limits: OutputLimits): Required<OutputLimits> {
+	return {
+		maxLines: Math.max(2, Math.floor(limits.maxLines ?? DEFAULT_MAX_LINES)),
+		maxBytes: Math.max(256, Math.floor(limits.maxBytes ?? DEFAULT_MAX_BYTES)),
+	};
+}
+
+export function exceedsLimits(text: string, limits: OutputLimits = {}): boolean {
+	const { maxLines, maxBytes } = resolveLimits(limits);
+	return text.split('\n').length > maxLines || Buffer.byteLength(text, 'utf8') > maxBytes;
+}
+
+/** Cut a single line to a byte budget on a character boundary */
+function clipLine(line: string, budget: number, fromEnd: boolean): string {
+	const chars = Array.from(line);
+	let bytes = 0;
+	const kept: string[] = [];
+	for (const ch of fromEnd ? chars.reverse() : chars) {
+		bytes += Buffer.byteLength(ch, 'utf8');
+		if (bytes > budget) break;
+		kept.push(ch);
+	}
+	return (fromEnd ? kept.reverse() : kept).join('');
+}
+
+/** Whole lines from one end of `lines`, within a line count and a byte budget */
+function takeLines(lines: string[], count: number, budget: number, fromEnd: boolean): string[] {
+	const kept: string[] = [];
+	let bytes = 0;
+	for (let i = 0; i < lines.length && kept.length < count; i++) {
+		const line = lines[fromEnd ? lines.length - 1 - i : i];
+		const size = Buffer.byteLength(line, 'utf8') + 1;
+		if (bytes + size > budget) {
+			// A huge first line still shows something
+			if (kept.length === 0) kept.push(clipLine(line, budget, fromEnd));
+			break;
+		}
+		kept.push(line);
+		bytes += size;
+	}
+	return fromEnd ? kept.reverse() : kept;
+}
+
+/**
+ * Truncate output to the limits, keeping the first and last half of the budget.
+ * The omission notice points to `fullOutputPath` when the full output was saved.
+ */
+export function truncateOutput(text: string, limits: OutputLimits = {}, fullOutputPath?: string): string {
+	if (!text) return "(no output)";
+	if (!exceedsLimits(text, limits)) return text;
+
+	const { maxLines, maxBytes } = resolveLimits(limits);
+	const lines = text.split('\n');
+	const headCount = Math.floor(maxLines / 2);
+	const head = takeLines(lines, headCount, Math.floor(maxBytes / 2), false);
+	const tail = takeLines(lines.slice(head.length), maxLines - headCount, Math.floor(maxBytes / 2), true);
+
+	const omitted = lines.length - head.length - tail.length;
+	const where = fullOutputPath ? ` — full output: ${fullOutputPath}` : '';
+	const notice = omitted > 0
+		? `... [${omitted} line(s) truncated${where}] ...`
+		: `... [Output truncated${where}] ...`;
+	return [...head, notice, ...tail].join('\n');
+}
+
+/** Write the untruncated stdout/stderr to a file in `dir`. Undefined if it can't be written. */
+export function saveFullOutput(stdout: string, stderr: string, dir = tmpdir()): string | undefined {
+	const file = join(dir, `pi-ps-output-${Date.now()}-${randomBytes(4).toString('hex')}.log`);
+	const content = stderr ? `${stdout}\n--- stderr ---\n${stderr}\n` : `${stdout}\n`;
+	try {
+		mkdirSync(dir, { recursive: true });
+		writeFileSync(file, content, 'utf8');
+		return file;
+	} catch {
+		return undefined;
+	}
+}